@@ -3,6 +3,9 @@ import { Stack } from "expo-router";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { BluetoothProvider } from "@contexts/bluetoothContext";
+import { FleetProvider } from "@contexts/fleetContext";
+import { KnownRobotsProvider } from "@contexts/knownRobotsContext";
+import { RemoteRelayProvider } from "@contexts/remoteRelayContext";
 import { VehicleControlProvider } from "@contexts/vehicleControlContext";
 
 export default function RootLayout() {
@@ -10,16 +13,29 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <BluetoothProvider>
-          <VehicleControlProvider>
-            <Stack
-              screenOptions={{
-                headerShown: false,
-                contentStyle: { backgroundColor: "#fafafa" },
-              }}
-            >
-              <Stack.Screen name="index" />
-            </Stack>
-          </VehicleControlProvider>
+          <KnownRobotsProvider>
+            <FleetProvider>
+              <RemoteRelayProvider>
+                <VehicleControlProvider>
+                  <Stack
+                    screenOptions={{
+                      headerShown: false,
+                      contentStyle: { backgroundColor: "#fafafa" },
+                    }}
+                  >
+                    <Stack.Screen name="index" />
+                    <Stack.Screen name="setup" />
+                    <Stack.Screen name="diagnostics" />
+                    <Stack.Screen name="gatt" />
+                    <Stack.Screen name="traffic" />
+                    <Stack.Screen name="fleet" />
+                    <Stack.Screen name="split" />
+                    <Stack.Screen name="relay" />
+                  </Stack>
+                </VehicleControlProvider>
+              </RemoteRelayProvider>
+            </FleetProvider>
+          </KnownRobotsProvider>
         </BluetoothProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import {
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import { HapticService } from "@services/hapticService";
+import { TRANSPORT_OPTIONS } from "@services/transports";
+import {
+  ConnectionDiagnostics,
+  createDiagnosticSteps,
+} from "@services/diagnostics";
+import type { DiagnosticStatus, DiagnosticStep } from "../src/types";
+
+const STATUS_ICONS: Record<
+  Exclude<DiagnosticStatus, "running">,
+  { name: React.ComponentProps<typeof FontAwesome>["name"]; color: string }
+> = {
+  pending: { name: "circle-o", color: "#ddd" },
+  passed: { name: "check-circle", color: "#10b981" },
+  failed: { name: "times-circle", color: "#ef4444" },
+  skipped: { name: "minus-circle", color: "#999" },
+};
+
+/**
+ * Step-by-step connection checks with a shareable report
+ */
+export default function DiagnosticsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { transportKind, createDiagnostics } = useBluetooth();
+  const { robots } = useKnownRobots();
+  const [steps, setSteps] = useState<DiagnosticStep[]>(createDiagnosticSteps);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [hasRun, setHasRun] = useState(false);
+  const runnerRef = useRef<ConnectionDiagnostics | null>(null);
+
+  // Known robots on the selected link can be checked by id
+  const targets = robots.filter((robot) => robot.transport === transportKind);
+  const linkLabel =
+    TRANSPORT_OPTIONS.find((option) => option.kind === transportKind)?.label ??
+    transportKind;
+
+  // Stop a running check when leaving the screen
+  useEffect(() => {
+    return () => runnerRef.current?.cancel();
+  }, []);
+
+  const handleRun = async () => {
+    await HapticService.mediumTap();
+    setIsRunning(true);
+    setHasRun(false);
+    setSteps(createDiagnosticSteps());
+    try {
+      const runner = await createDiagnostics(setSteps);
+      runnerRef.current = runner;
+      await runner.run(targetId ?? undefined);
+      setHasRun(true);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleShare = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    await HapticService.lightTap();
+    try {
+      await Share.share({ message: runner.report() });
+    } catch (error) {
+      console.warn("Failed to share report:", error);
+    }
+  };
+
+  const handleTargetSelect = async (id: string | null) => {
+    await HapticService.lightTap();
+    setTargetId(id);
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button, title and link type */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>Connection Diagnostics</Text>
+        <Text style={styles.linkLabel}>{linkLabel}</Text>
+      </View>
+
+      <View style={styles.content}>
+        {/* Left: target and actions */}
+        <View style={styles.controls}>
+          <Text style={styles.sectionTitle}>Robot</Text>
+          <View style={styles.targets}>
+            {[null, ...targets].map((robot) => {
+              const id = robot?.id ?? null;
+              const isActive = id === targetId;
+              return (
+                <Pressable
+                  key={id ?? "any"}
+                  style={[styles.target, isActive && styles.targetActive]}
+                  onPress={() => handleTargetSelect(id)}
+                  disabled={isRunning}
+                >
+                  <Text
+                    style={[
+                      styles.targetText,
+                      isActive && styles.targetTextActive,
+                    ]}
+                  >
+                    {robot ? robotDisplayName(robot) : "First found"}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <Pressable
+            style={[styles.runButton, isRunning && styles.runButtonDisabled]}
+            onPress={handleRun}
+            disabled={isRunning}
+          >
+            {isRunning ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <FontAwesome name="stethoscope" size={16} color="#fff" />
+            )}
+            <Text style={styles.runText}>
+              {isRunning ? "Running..." : hasRun ? "Run Again" : "Run Checks"}
+            </Text>
+          </Pressable>
+
+          {hasRun && (
+            <Pressable style={styles.shareButton} onPress={handleShare}>
+              <FontAwesome name="share" size={14} color="#FF9E42" />
+              <Text style={styles.shareText}>Share Report</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Right: step results */}
+        <ScrollView style={styles.steps}>
+          {steps.map((step) => (
+            <View key={step.id} style={styles.step}>
+              {step.status === "running" ? (
+                <ActivityIndicator size="small" color="#FF9E42" />
+              ) : (
+                <FontAwesome
+                  name={STATUS_ICONS[step.status].name}
+                  size={18}
+                  color={STATUS_ICONS[step.status].color}
+                />
+              )}
+              <View style={styles.stepInfo}>
+                <Text style={styles.stepLabel}>{step.label}</Text>
+                {step.detail && (
+                  <Text
+                    style={[
+                      styles.stepDetail,
+                      step.status === "failed" && styles.stepDetailFailed,
+                    ]}
+                  >
+                    {step.detail}
+                  </Text>
+                )}
+              </View>
+              {step.durationMs !== null && (
+                <Text style={styles.stepDuration}>{step.durationMs} ms</Text>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  linkLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  content: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 16,
+    padding: 16,
+  },
+  controls: {
+    flex: 1,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#999",
+    textTransform: "uppercase",
+  },
+  targets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  target: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  targetActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  targetText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  targetTextActive: {
+    color: "#FF9E42",
+  },
+  runButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#FF9E42",
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  runButtonDisabled: {
+    opacity: 0.6,
+  },
+  runText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  shareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#FF9E42",
+    backgroundColor: "#FFF4E6",
+  },
+  shareText: {
+    color: "#FF9E42",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  steps: {
+    flex: 1.5,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  step: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  stepInfo: {
+    flex: 1,
+  },
+  stepLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  stepDetail: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  stepDetailFailed: {
+    color: "#ef4444",
+  },
+  stepDuration: {
+    fontSize: 11,
+    color: "#999",
+  },
+});
@@ -0,0 +1,457 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useFleet } from "@contexts/fleetContext";
+import {
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import { HapticService } from "@services/hapticService";
+import type {
+  BluetoothDevice,
+  BluetoothState,
+  FirmwareInfo,
+  FleetRobot,
+  VehicleTelemetry,
+} from "../src/types";
+
+interface RobotStatus {
+  label: string;
+  color: string;
+}
+
+// Short status for a robot row; linked means the handshake has finished
+function describeStatus(
+  state: BluetoothState,
+  firmware: FirmwareInfo | null,
+  linkLost: boolean,
+  errorMessage: string | null
+): RobotStatus {
+  if (state === "connected" && firmware) {
+    return linkLost
+      ? { label: "Link lost", color: "#ef4444" }
+      : { label: "Connected", color: "#10b981" };
+  }
+  if (
+    state === "connecting" ||
+    state === "discovering" ||
+    state === "connected"
+  ) {
+    return { label: "Connecting…", color: "#FF9E42" };
+  }
+  if (state === "linkLost") {
+    return { label: "Link lost", color: "#ef4444" };
+  }
+  if (state === "reconnecting") {
+    return { label: "Reconnecting…", color: "#FF9E42" };
+  }
+  return errorMessage
+    ? { label: errorMessage, color: "#ef4444" }
+    : { label: "Disconnected", color: "#999" };
+}
+
+/**
+ * Every connected robot at a glance: pick the one the joystick drives,
+ * add more robots and stop them all at once
+ */
+export default function FleetScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const {
+    state,
+    connectedDevice,
+    firmware,
+    telemetry,
+    linkLost,
+    devices,
+    isScanning,
+    startScan,
+    stopScan,
+  } = useBluetooth();
+  const {
+    robots,
+    drivenRobotId,
+    setDrivenRobot,
+    addRobot,
+    reconnectRobot,
+    removeRobot,
+    stopAll,
+  } = useFleet();
+  const { getRobot } = useKnownRobots();
+  const [addingId, setAddingId] = useState<string | null>(null);
+
+  // Scan results not already connected on the main link or in the fleet
+  const available = devices.filter(
+    (device) =>
+      device.id !== connectedDevice?.id &&
+      !robots.some((robot) => robot.device.id === device.id)
+  );
+
+  const displayName = (device: BluetoothDevice) => {
+    const known = getRobot(device.id);
+    return known ? robotDisplayName(known) : device.name;
+  };
+
+  const handleStopAll = async () => {
+    await HapticService.heavyTap();
+    await stopAll();
+  };
+
+  const handleDrive = async (id: string | null) => {
+    await HapticService.lightTap();
+    setDrivenRobot(id);
+  };
+
+  const handleAdd = async (device: BluetoothDevice) => {
+    await HapticService.mediumTap();
+    stopScan();
+    setAddingId(device.id);
+    const success = await addRobot(device);
+    setAddingId(null);
+    if (success) {
+      await HapticService.success();
+    } else {
+      await HapticService.error();
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    await HapticService.mediumTap();
+    await removeRobot(id);
+  };
+
+  const handleScanToggle = async () => {
+    await HapticService.lightTap();
+    if (isScanning) {
+      stopScan();
+    } else {
+      await startScan();
+    }
+  };
+
+  const renderRobot = (
+    device: BluetoothDevice,
+    status: RobotStatus,
+    robotTelemetry: VehicleTelemetry | null,
+    robotId: string | null,
+    actions?: React.ReactNode
+  ) => {
+    const isDriven = drivenRobotId === robotId;
+    return (
+      <View
+        key={device.id}
+        style={[styles.robotRow, isDriven && styles.robotRowDriven]}
+      >
+        <View
+          style={[
+            styles.robotDot,
+            { backgroundColor: getRobot(device.id)?.color ?? "#999" },
+          ]}
+        />
+        <View style={styles.robotInfo}>
+          <Text style={styles.robotName} numberOfLines={1}>
+            {displayName(device)}
+            {robotId === null && (
+              <Text style={styles.robotTag}> · main link</Text>
+            )}
+          </Text>
+          <Text
+            style={[styles.robotStatus, { color: status.color }]}
+            numberOfLines={1}
+          >
+            {status.label}
+            {robotTelemetry &&
+              ` · Battery ${Math.round(robotTelemetry.battery)}%`}
+          </Text>
+        </View>
+        <Pressable
+          style={[styles.pill, isDriven && styles.pillActive]}
+          onPress={() => handleDrive(robotId)}
+        >
+          <Text style={[styles.pillText, isDriven && styles.pillTextActive]}>
+            {isDriven ? "Driving" : "Drive"}
+          </Text>
+        </Pressable>
+        {actions}
+      </View>
+    );
+  };
+
+  const renderFleetRobot = (robot: FleetRobot) => {
+    const id = robot.device.id;
+    const status = describeStatus(
+      robot.state,
+      robot.firmware,
+      robot.linkLost,
+      robot.error?.message ?? null
+    );
+    const isDown = robot.state === "disconnected";
+    return renderRobot(
+      robot.device,
+      status,
+      robot.telemetry,
+      id,
+      <>
+        {isDown && (
+          <Pressable style={styles.pill} onPress={() => reconnectRobot(id)}>
+            <Text style={styles.pillText}>Reconnect</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.iconButton} onPress={() => handleRemove(id)}>
+          <FontAwesome name="times" size={16} color="#999" />
+        </Pressable>
+      </>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button, title and emergency stop */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>Fleet</Text>
+        <Text style={styles.summary}>
+          {robots.length + (connectedDevice ? 1 : 0)} robots
+        </Text>
+        <Pressable style={styles.stopAllButton} onPress={handleStopAll}>
+          <FontAwesome name="hand-paper-o" size={14} color="#fff" />
+          <Text style={styles.stopAllText}>STOP ALL</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.columns}>
+        {/* Left: connected robots, main link first */}
+        <ScrollView style={styles.panel}>
+          <Text style={styles.panelTitle}>Connected</Text>
+          {connectedDevice &&
+            renderRobot(
+              connectedDevice,
+              describeStatus(state, firmware, linkLost, null),
+              telemetry,
+              null
+            )}
+          {robots.map(renderFleetRobot)}
+          {!connectedDevice && robots.length === 0 && (
+            <Text style={styles.emptyText}>
+              No robots connected. Add some from the list.
+            </Text>
+          )}
+        </ScrollView>
+
+        {/* Right: scan for more robots on the selected link type */}
+        <View style={styles.panel}>
+          <View style={styles.panelHeader}>
+            <Text style={styles.panelTitle}>Add robots</Text>
+            <Pressable
+              style={[styles.pill, isScanning && styles.pillActive]}
+              onPress={handleScanToggle}
+            >
+              <Text
+                style={[styles.pillText, isScanning && styles.pillTextActive]}
+              >
+                {isScanning ? "Stop" : "Scan"}
+              </Text>
+            </Pressable>
+          </View>
+          <FlatList
+            data={available}
+            keyExtractor={(device) => device.id}
+            renderItem={({ item }) => (
+              <Pressable
+                style={styles.deviceRow}
+                onPress={() => handleAdd(item)}
+                disabled={addingId !== null}
+              >
+                <Text style={styles.deviceName} numberOfLines={1}>
+                  {displayName(item)}
+                </Text>
+                {addingId === item.id ? (
+                  <ActivityIndicator size="small" color="#FF9E42" />
+                ) : (
+                  <FontAwesome name="plus" size={14} color="#FF9E42" />
+                )}
+              </Pressable>
+            )}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                {isScanning ? "Scanning…" : "Scan to find more robots"}
+              </Text>
+            }
+          />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  summary: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  stopAllButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#ef4444",
+  },
+  stopAllText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  columns: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 16,
+    padding: 16,
+  },
+  panel: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+    padding: 12,
+  },
+  panelHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  panelTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#333",
+    marginBottom: 8,
+  },
+  robotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 10,
+    marginBottom: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  robotRowDriven: {
+    borderColor: "#FF9E42",
+    backgroundColor: "#FFF4E6",
+  },
+  robotDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  robotInfo: {
+    flex: 1,
+  },
+  robotName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  robotTag: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#999",
+  },
+  robotStatus: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
+  pill: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  pillActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  pillTextActive: {
+    color: "#FF9E42",
+  },
+  iconButton: {
+    padding: 8,
+  },
+  deviceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  deviceName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    padding: 24,
+  },
+});
@@ -0,0 +1,605 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { DEVICE_PROFILES, normalizeUUID } from "@services/deviceProfiles";
+import { HapticService } from "@services/hapticService";
+import { bytesToBinaryString } from "@services/protocol";
+import { PayloadCodec, PayloadFormat } from "@utils/payloadCodec";
+import type { GattCharacteristic, GattService } from "../src/types";
+
+const FORMATS: { format: PayloadFormat; label: string }[] = [
+  { format: "text", label: "Text" },
+  { format: "hex", label: "Hex" },
+  { format: "base64", label: "Base64" },
+];
+
+const BASE_UUID_SUFFIX = "-0000-1000-8000-00805f9b34fb";
+const MAX_LOG_ENTRIES = 30;
+
+interface LogEntry {
+  id: number;
+  kind: "read" | "write" | "notify" | "error";
+  data: string; // Latin-1 bytes, or the message for errors
+  timestamp: number;
+}
+
+// "FFE1" for SIG-base UUIDs, the full UUID otherwise
+function shortUUID(uuid: string): string {
+  const lower = normalizeUUID(uuid);
+  return lower.startsWith("0000") && lower.endsWith(BASE_UUID_SUFFIX)
+    ? lower.slice(4, 8).toUpperCase()
+    : lower;
+}
+
+// What a UUID means to the known device profiles, if anything
+function knownRole(uuid: string): string | null {
+  const target = normalizeUUID(uuid);
+  for (const profile of DEVICE_PROFILES) {
+    if (normalizeUUID(profile.serviceUUID) === target) return profile.name;
+    if (normalizeUUID(profile.characteristicUUID) === target) return "Commands";
+    if (
+      profile.telemetryCharacteristicUUID &&
+      normalizeUUID(profile.telemetryCharacteristicUUID) === target
+    ) {
+      return "Telemetry";
+    }
+  }
+  return null;
+}
+
+function characteristicKey(characteristic: GattCharacteristic): string {
+  return `${characteristic.serviceUUID}/${characteristic.uuid}`;
+}
+
+function propertyBadges(characteristic: GattCharacteristic): string[] {
+  return [
+    characteristic.isReadable && "R",
+    characteristic.isWritableWithResponse && "W",
+    characteristic.isWritableWithoutResponse && "WnR",
+    characteristic.isNotifiable && "N",
+    characteristic.isIndicatable && "I",
+  ].filter((badge): badge is string => Boolean(badge));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Developer screen: browse the connected device's GATT table, read, write
+ * and subscribe to any characteristic
+ */
+export default function GattExplorerScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { connectedDevice, getConnectedBleTransport } = useBluetooth();
+  const [services, setServices] = useState<GattService[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GattCharacteristic | null>(null);
+  const [format, setFormat] = useState<PayloadFormat>("text");
+  const [writeInput, setWriteInput] = useState("");
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [notifying, setNotifying] = useState<string[]>([]);
+
+  // Active notification subscriptions by characteristic key
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+  const logIdRef = useRef(0);
+
+  // Re-evaluated on every state change
+  const transport = getConnectedBleTransport();
+
+  const addLog = useCallback((kind: LogEntry["kind"], data: string) => {
+    const entry = { id: ++logIdRef.current, kind, data, timestamp: Date.now() };
+    setLog((prev) => [entry, ...prev].slice(0, MAX_LOG_ENTRIES));
+  }, []);
+
+  const loadServices = useCallback(async () => {
+    if (!transport) return;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setServices(await transport.getGattServices());
+    } catch (error) {
+      setLoadError(errorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transport]);
+
+  useEffect(() => {
+    loadServices();
+  }, [loadServices]);
+
+  // Drop all subscriptions when leaving the screen or losing the link
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions.clear();
+      setNotifying([]);
+    };
+  }, [transport]);
+
+  const handleSelect = async (characteristic: GattCharacteristic) => {
+    await HapticService.lightTap();
+    setSelected(characteristic);
+    setLog([]);
+  };
+
+  const handleRead = async () => {
+    if (!transport || !selected) return;
+    await HapticService.lightTap();
+    try {
+      const value = await transport.readCharacteristic(
+        selected.serviceUUID,
+        selected.uuid
+      );
+      addLog("read", value);
+    } catch (error) {
+      addLog("error", errorMessage(error));
+    }
+  };
+
+  const handleWrite = async (withResponse: boolean) => {
+    if (!transport || !selected) return;
+    await HapticService.mediumTap();
+    try {
+      const bytes = PayloadCodec.encode(writeInput, format);
+      await transport.writeCharacteristic(
+        selected.serviceUUID,
+        selected.uuid,
+        bytes,
+        withResponse
+      );
+      addLog("write", bytesToBinaryString(bytes));
+    } catch (error) {
+      addLog("error", errorMessage(error));
+    }
+  };
+
+  const handleToggleNotify = async () => {
+    if (!transport || !selected) return;
+    await HapticService.lightTap();
+    const key = characteristicKey(selected);
+    const subscriptions = subscriptionsRef.current;
+
+    const existing = subscriptions.get(key);
+    if (existing) {
+      existing();
+      subscriptions.delete(key);
+      setNotifying((prev) => prev.filter((item) => item !== key));
+      return;
+    }
+
+    try {
+      subscriptions.set(
+        key,
+        transport.monitorCharacteristic(
+          selected.serviceUUID,
+          selected.uuid,
+          (data) => addLog("notify", data),
+          (error) => addLog("error", error.message)
+        )
+      );
+      setNotifying((prev) => [...prev, key]);
+    } catch (error) {
+      addLog("error", errorMessage(error));
+    }
+  };
+
+  const canWrite =
+    selected?.isWritableWithResponse || selected?.isWritableWithoutResponse;
+  const isNotifying = selected
+    ? notifying.includes(characteristicKey(selected))
+    : false;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button, title, device and refresh */}
+      <View style={styles.header}>
+        <Pressable style={styles.iconButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>GATT Explorer</Text>
+        <Text style={styles.subtitle}>{connectedDevice?.name ?? ""}</Text>
+        <View style={styles.headerSpacer} />
+        {isLoading ? (
+          <ActivityIndicator size="small" color="#FF9E42" />
+        ) : (
+          <Pressable
+            style={styles.iconButton}
+            onPress={loadServices}
+            disabled={!transport}
+          >
+            <FontAwesome name="refresh" size={16} color="#999" />
+          </Pressable>
+        )}
+      </View>
+
+      {!transport ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>
+            Connect to a robot over Bluetooth LE to inspect its services.
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.content}>
+          {/* Left: services and characteristics */}
+          <ScrollView style={styles.tree}>
+            {loadError && <Text style={styles.errorText}>{loadError}</Text>}
+            {services.map((service) => (
+              <View key={service.uuid}>
+                <View style={styles.serviceRow}>
+                  <Text style={styles.serviceUUID}>
+                    {shortUUID(service.uuid)}
+                  </Text>
+                  {knownRole(service.uuid) && (
+                    <Text style={styles.role}>{knownRole(service.uuid)}</Text>
+                  )}
+                </View>
+                {service.characteristics.map((characteristic) => {
+                  const key = characteristicKey(characteristic);
+                  const isSelected =
+                    selected !== null && characteristicKey(selected) === key;
+                  return (
+                    <Pressable
+                      key={key}
+                      style={[
+                        styles.characteristicRow,
+                        isSelected && styles.characteristicRowSelected,
+                      ]}
+                      onPress={() => handleSelect(characteristic)}
+                    >
+                      <Text style={styles.characteristicUUID}>
+                        {shortUUID(characteristic.uuid)}
+                      </Text>
+                      {knownRole(characteristic.uuid) && (
+                        <Text style={styles.role}>
+                          {knownRole(characteristic.uuid)}
+                        </Text>
+                      )}
+                      <View style={styles.badges}>
+                        {propertyBadges(characteristic).map((badge) => (
+                          <Text key={badge} style={styles.badge}>
+                            {badge}
+                          </Text>
+                        ))}
+                        {notifying.includes(key) && (
+                          <FontAwesome name="bell" size={12} color="#10b981" />
+                        )}
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+
+          {/* Right: actions on the selected characteristic */}
+          <View style={styles.panel}>
+            {!selected ? (
+              <Text style={styles.emptyText}>Select a characteristic</Text>
+            ) : (
+              <>
+                <Text style={styles.panelUUID} selectable>
+                  {selected.uuid}
+                </Text>
+
+                <View style={styles.row}>
+                  {FORMATS.map((option) => (
+                    <Pressable
+                      key={option.format}
+                      style={[
+                        styles.pill,
+                        option.format === format && styles.pillActive,
+                      ]}
+                      onPress={() => setFormat(option.format)}
+                    >
+                      <Text
+                        style={[
+                          styles.pillText,
+                          option.format === format && styles.pillTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+
+                <View style={styles.row}>
+                  {selected.isReadable && (
+                    <Pressable style={styles.actionButton} onPress={handleRead}>
+                      <Text style={styles.actionText}>Read</Text>
+                    </Pressable>
+                  )}
+                  {(selected.isNotifiable || selected.isIndicatable) && (
+                    <Pressable
+                      style={[
+                        styles.actionButton,
+                        isNotifying && styles.actionButtonActive,
+                      ]}
+                      onPress={handleToggleNotify}
+                    >
+                      <Text style={styles.actionText}>
+                        {isNotifying ? "Unsubscribe" : "Subscribe"}
+                      </Text>
+                    </Pressable>
+                  )}
+                </View>
+
+                {canWrite && (
+                  <View style={styles.row}>
+                    <TextInput
+                      style={styles.writeInput}
+                      value={writeInput}
+                      onChangeText={setWriteInput}
+                      placeholder={
+                        format === "hex" ? "BB 01 02" : "Value to write"
+                      }
+                      placeholderTextColor="#999"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    {selected.isWritableWithResponse && (
+                      <Pressable
+                        style={styles.actionButton}
+                        onPress={() => handleWrite(true)}
+                      >
+                        <Text style={styles.actionText}>Write</Text>
+                      </Pressable>
+                    )}
+                    {selected.isWritableWithoutResponse && (
+                      <Pressable
+                        style={styles.actionButton}
+                        onPress={() => handleWrite(false)}
+                      >
+                        <Text style={styles.actionText}>No Resp.</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                )}
+
+                {/* Reads, writes and notifications, newest first */}
+                <ScrollView style={styles.log}>
+                  {log.map((entry) => (
+                    <Text
+                      key={entry.id}
+                      style={[
+                        styles.logEntry,
+                        entry.kind === "error" && styles.logEntryError,
+                      ]}
+                      selectable
+                    >
+                      {new Date(entry.timestamp).toLocaleTimeString()}{" "}
+                      {entry.kind.toUpperCase()}{" "}
+                      {entry.kind === "error"
+                        ? entry.data
+                        : PayloadCodec.format(entry.data, format)}
+                    </Text>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  headerSpacer: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  subtitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  content: {
+    flex: 1,
+    flexDirection: "row",
+    gap: 16,
+    padding: 16,
+  },
+  tree: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  serviceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: "#f5f5f5",
+  },
+  serviceUUID: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  characteristicRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingLeft: 24,
+    paddingRight: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  characteristicRowSelected: {
+    backgroundColor: "#FFF4E6",
+  },
+  characteristicUUID: {
+    fontSize: 12,
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  role: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#FF9E42",
+  },
+  badges: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginLeft: "auto",
+  },
+  badge: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#666",
+    backgroundColor: "#f0f0f0",
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    overflow: "hidden",
+  },
+  panel: {
+    flex: 1.3,
+    gap: 10,
+    padding: 12,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  panelUUID: {
+    fontSize: 12,
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  pill: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  pillActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  pillTextActive: {
+    color: "#FF9E42",
+  },
+  actionButton: {
+    backgroundColor: "#FF9E42",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  actionButtonActive: {
+    backgroundColor: "#10b981",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  writeInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+    fontSize: 13,
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  log: {
+    flex: 1,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  logEntry: {
+    fontSize: 11,
+    color: "#333",
+    fontFamily: "monospace",
+    paddingVertical: 2,
+  },
+  logEntryError: {
+    color: "#ef4444",
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#ef4444",
+    padding: 12,
+  },
+});
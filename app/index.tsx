@@ -1,181 +1,332 @@
-import React, { useCallback, useState, useRef } from "react";
-import { StyleSheet, View, Text } from "react-native";
+import React, { useCallback, useEffect, useRef } from "react";
+import { StyleSheet, View, Text, Pressable } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
 import { Joystick } from "@components/Joystick";
 import { GearSelector } from "@components/GearSelector";
 import { ClawControl } from "@components/ClawControl";
 import { BluetoothConnectorV2 } from "@components/BluetoothConnectorV2";
+import { LinkQualityHud } from "@components/LinkQualityHud";
 import { useVehicleControl } from "@contexts/vehicleControlContext";
-import { JoystickMath } from "@utils/joystickMath";
-import type { JoystickData, GearType } from "../src/types";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useFleet } from "@contexts/fleetContext";
+import { useRemoteRelay } from "@contexts/remoteRelayContext";
+import {
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import { HapticService } from "@services/hapticService";
+import { useCardinalDrive } from "../src/hooks/useCardinalDrive";
+import { useProportionalDrive } from "../src/hooks/useProportionalDrive";
+import { useRobotTarget } from "../src/hooks/useRobotTarget";
+import type {
+  JoystickData,
+  GearType,
+  FirmwareInfo,
+  MotorCommand,
+} from "../src/types";
 
 export default function ControlScreen() {
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   const {
     setJoystickData,
     currentGear,
     setGear,
     clawOpen,
     toggleClaw,
+    driveMode,
+    setDriveMode,
   } = useVehicleControl();
+  const {
+    state,
+    connectedDevice,
+    linkLost,
+    linkQuality,
+    linkTuning,
+    setDriving,
+    onReconnected,
+  } = useBluetooth();
+  const { lastRobot, connectToRobot } = useKnownRobots();
+  const { robots: fleetRobots, drivenRobotId, stopAll } = useFleet();
+  const {
+    status: relayStatus,
+    takeOver: takeOverRelay,
+    handBack: handBackRelay,
+    revoke: revokeRelay,
+  } = useRemoteRelay();
+
+  // The joystick drives the main link unless a fleet robot is chosen
+  const drivesMainLink = drivenRobotId === null;
+  const {
+    device: drivenDevice,
+    firmware,
+    sendCommand,
+    sendMotorCommand,
+    telemetry,
+    telemetryStale,
+    isLinkUp,
+  } = useRobotTarget(drivenRobotId);
 
-  const [connectedDeviceId, setConnectedDeviceId] = useState<string | null>(
-    null
-  );
-  const [sendCommandFn, setSendCommandFn] = useState<
-    ((cmd: string) => Promise<void>) | null
-  >(null);
-
-  // Initialize connection and send startup commands to ESP32
-  const handleConnected = useCallback(
-    (deviceId: string, sendCommand: (cmd: string) => Promise<void>) => {
-      setConnectedDeviceId(deviceId);
-      setSendCommandFn(() => sendCommand);
+  // Capabilities reported by the firmware handshake (all shown until known)
+  const canDriveCardinal = !firmware || firmware.features.includes("cardinal");
+  const canDriveProportional =
+    !firmware || firmware.features.includes("proportional");
+  const hasClaw = !firmware || firmware.features.includes("claw");
+  const firmwareAppliesGear = firmware?.features.includes("gear") ?? false;
+
+  // Send a MotorCommand in the firmware's format, with current gear and claw
+  const sendRobotCommand = useCallback(
+    (type: MotorCommand["type"], overrides: Partial<MotorCommand> = {}) =>
+      sendMotorCommand({
+        type,
+        leftSpeed: 0,
+        rightSpeed: 0,
+        gear: currentGear,
+        clawOpen,
+        timestamp: Date.now(),
+        ...overrides,
+      }),
+    [sendMotorCommand, currentGear, clawOpen]
+  );
+
+  const sendDrive = useCallback(
+    (leftSpeed: number, rightSpeed: number) =>
+      sendRobotCommand("joystick", { leftSpeed, rightSpeed }),
+    [sendRobotCommand]
+  );
+
+  // Proportional mode: gear 2 allows full speed, gear 1 caps at 60%
+  // (unless the firmware applies the gear itself)
+  const proportionalDrive = useProportionalDrive(
+    sendDrive,
+    firmwareAppliesGear || currentGear === "2" ? 100 : 60,
+    linkTuning.sendIntervalMs
+  );
+
+  // 4-way mode: direction, speed cap and speed steps once per direction
+  const cardinalDrive = useCardinalDrive(sendCommand, currentGear);
 
-      // Send reset and max speed commands to establish communication
+  // Send startup commands matching the firmware found by the handshake
+  const handleConnected = useCallback(
+    (info: FirmwareInfo) => {
       const initCommands = async () => {
         try {
-          await sendCommand("/");
-          await new Promise((resolve) => setTimeout(resolve, 200));
-          await sendCommand("MAX:100"); // Set initial motor speed
+          if (info.formats.includes("text")) {
+            // Character protocol: reset and set the initial motor speed
+            await sendCommand("/");
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            await sendCommand("MAX:100");
+          } else {
+            await sendRobotCommand("stop");
+            if (info.features.includes("gear")) {
+              await sendRobotCommand("gear");
+            }
+          }
         } catch (error) {
           console.error("Initialization error:", error);
         }
       };
       initCommands();
     },
-    []
+    [sendCommand, sendRobotCommand]
   );
 
-  // Clear connection state on disconnect
+  // Reset direction tracking on disconnect
   const handleDisconnected = useCallback(() => {
-    setConnectedDeviceId(null);
-    setSendCommandFn(null);
-  }, []);
+    proportionalDrive.stop();
+    cardinalDrive.reset();
+  }, [proportionalDrive, cardinalDrive]);
+
+  // Initialise once per handshake (fresh connections and reconnects)
+  const initialisedFirmwareRef = useRef<FirmwareInfo | null>(null);
+  useEffect(() => {
+    if (!firmware || firmware === initialisedFirmwareRef.current) return;
+    initialisedFirmwareRef.current = firmware;
+    handleDisconnected();
+    handleConnected(firmware);
+  }, [firmware, handleConnected, handleDisconnected]);
+
+  // After an automatic reconnect also restore the claw position (gear is
+  // re-sent on init or re-applied through MAX: with the next drive command)
+  useEffect(
+    () =>
+      onReconnected(() => {
+        if (drivesMainLink && hasClaw) {
+          sendRobotCommand("claw").catch(console.error);
+        }
+      }),
+    [onReconnected, sendRobotCommand, hasClaw, drivesMainLink]
+  );
+
+  // Fall back to the drive mode the firmware supports
+  useEffect(() => {
+    if (driveMode === "cardinal" && !canDriveCardinal && canDriveProportional) {
+      setDriveMode("proportional");
+    } else if (
+      driveMode === "proportional" &&
+      !canDriveProportional &&
+      canDriveCardinal
+    ) {
+      setDriveMode("cardinal");
+    }
+  }, [driveMode, setDriveMode, canDriveCardinal, canDriveProportional]);
+
+  // Drop the drive stream on link loss; the robot is stopped on recovery and
+  // only moves again once the joystick moves
+  useEffect(() => {
+    if (drivesMainLink && linkLost) {
+      handleDisconnected();
+    }
+  }, [drivesMainLink, linkLost, handleDisconnected]);
+
+  // Switch between 4-way and proportional drive, stopping the robot first
+  const handleDriveModeToggle = useCallback(() => {
+    proportionalDrive.stop();
+    cardinalDrive.reset();
+    const nextMode = driveMode === "cardinal" ? "proportional" : "cardinal";
+    setDriveMode(nextMode);
 
-  // Refs to prevent duplicate commands and track state changes
-  const lastCommandRef = useRef<string | null>(null);
-  const speedSentRef = useRef<boolean>(false);
-  const maxSpeedSetRef = useRef<boolean>(false);
+    if (isLinkUp) {
+      sendRobotCommand("stop").catch(console.error);
+      // Proportional speeds are a percentage of the firmware's full range
+      if (nextMode === "proportional" && firmware?.formats.includes("text")) {
+        sendCommand("MAX:100").catch(console.error);
+      }
+    }
+  }, [
+    proportionalDrive,
+    cardinalDrive,
+    driveMode,
+    setDriveMode,
+    isLinkUp,
+    firmware,
+    sendCommand,
+    sendRobotCommand,
+  ]);
 
-  // Process joystick input: detect direction and send motor commands (4-way cardinal only)
+  // Process joystick input: stream wheel speeds or send 4-way cardinal commands
   const handleJoystickMove = useCallback(
     (data: JoystickData) => {
       setJoystickData(data);
 
-      if (!sendCommandFn || !connectedDeviceId) return;
-
-      // Map joystick position to 4 cardinal directions (N/S/E/W)
-      const direction = JoystickMath.detectCardinalDirection(data, 45);
-
-      let directionCommand = "S";
-
-      // Convert cardinal direction to ESP32 command
-      switch (direction) {
-        case "NORTH":
-          directionCommand = "F";
-          break;
-        case "SOUTH":
-          directionCommand = "B";
-          break;
-        case "EAST":
-          directionCommand = "R";
-          break;
-        case "WEST":
-          directionCommand = "L";
-          break;
-        case "CENTER":
-          directionCommand = "S";
-          break;
-      }
+      if (!isLinkUp) return;
+      setDriving(true);
 
-      // Send direction command only if it changed
-      if (directionCommand !== lastCommandRef.current) {
-        sendCommandFn(directionCommand).catch(console.error);
-        lastCommandRef.current = directionCommand;
-        speedSentRef.current = false;
-        maxSpeedSetRef.current = false;
+      // Touching the joystick takes the robot back from a remote browser
+      if (drivesMainLink && relayStatus.state === "remote") {
+        takeOverRelay();
       }
 
-      // Send speed increments immediately (no delays to avoid ESP32 timeout)
-      if (directionCommand !== "S" && !speedSentRef.current) {
-        // Set max speed once per direction change
-        if (!maxSpeedSetRef.current) {
-          const maxSpeed = currentGear === "2" ? 180 : 60;
-          sendCommandFn(`MAX:${maxSpeed}`).catch(console.error);
-          maxSpeedSetRef.current = true;
-        }
-
-        // Send speed increments based on gear and direction (forward vs turning)
-        // Turning uses less speed for smoother control and less motor noise
-        const isTurning = directionCommand === "L" || directionCommand === "R";
-
-        if (currentGear === "2") {
-          if (isTurning) {
-            // Gear 2 turning: 1 increment (lower speed, quieter)
-            sendCommandFn("+").catch(console.error);
-          } else {
-            // Gear 2 forward/backward: 2 increments (full speed)
-            sendCommandFn("+").catch(console.error);
-            sendCommandFn("+").catch(console.error);
-          }
-        } else if (currentGear === "1") {
-          if (isTurning) {
-            // Gear 1 turning: no extra increments (very slow, quiet turns)
-            // Uses base speed only
-          } else {
-            // Gear 1 forward/backward: 2 increments
-            sendCommandFn("+").catch(console.error);
-            sendCommandFn("+").catch(console.error);
-          }
-        }
-        speedSentRef.current = true;
+      if (driveMode === "proportional") {
+        proportionalDrive.update(data);
+        return;
       }
+
+      cardinalDrive.update(data);
     },
-    [setJoystickData, sendCommandFn, connectedDeviceId, currentGear]
+    [
+      setJoystickData,
+      setDriving,
+      isLinkUp,
+      driveMode,
+      proportionalDrive,
+      cardinalDrive,
+      drivesMainLink,
+      relayStatus.state,
+      takeOverRelay,
+    ]
   );
 
   // Stop joystick and reset motor speeds
   const handleJoystickStop = useCallback(() => {
     setJoystickData(null);
-
-    lastCommandRef.current = null;
-    speedSentRef.current = false;
+    proportionalDrive.stop();
+    cardinalDrive.reset();
 
-    if (sendCommandFn && connectedDeviceId) {
-      sendCommandFn("S").catch(console.error);
+    if (isLinkUp) {
+      setDriving(false);
+      sendRobotCommand("stop").catch(console.error);
     }
-  }, [setJoystickData, sendCommandFn, connectedDeviceId]);
+  }, [
+    setJoystickData,
+    setDriving,
+    sendRobotCommand,
+    isLinkUp,
+    proportionalDrive,
+    cardinalDrive,
+  ]);
 
   // Switch gear and stop motor to prevent momentum conflicts
   const handleGearChange = useCallback(
     (gear: GearType) => {
       setGear(gear);
-      // Reset speed tracking for clean gear transition
-      speedSentRef.current = false;
-      maxSpeedSetRef.current = false;
-      lastCommandRef.current = null;
+      proportionalDrive.stop();
+      // Resend direction and speed for the new gear on the next move
+      cardinalDrive.reset();
 
       // Stop motor before changing gears
-      if (sendCommandFn && connectedDeviceId) {
-        sendCommandFn("S").catch(console.error);
+      if (isLinkUp) {
+        sendRobotCommand("stop").catch(console.error);
+        if (firmwareAppliesGear) {
+          sendRobotCommand("gear", { gear }).catch(console.error);
+        }
       }
     },
-    [setGear, sendCommandFn, connectedDeviceId]
+    [
+      setGear,
+      sendRobotCommand,
+      isLinkUp,
+      proportionalDrive,
+      cardinalDrive,
+      firmwareAppliesGear,
+    ]
   );
 
   // Toggle claw open/close and send command to robot
   const handleClawToggle = useCallback(
     (isOpen: boolean) => {
       toggleClaw();
-      if (sendCommandFn && connectedDeviceId) {
-        const command = isOpen ? "O" : "C";
-        sendCommandFn(command).catch(console.error);
+      if (isLinkUp) {
+        sendRobotCommand("claw", { clawOpen: isOpen }).catch(console.error);
       }
     },
-    [toggleClaw, sendCommandFn, connectedDeviceId]
+    [toggleClaw, sendRobotCommand, isLinkUp]
   );
 
+  // One-tap reconnect to the robot used last time
+  const handleQuickConnect = useCallback(async () => {
+    if (!lastRobot) return;
+    await HapticService.mediumTap();
+    await connectToRobot(lastRobot);
+  }, [lastRobot, connectToRobot]);
+
+  // Emergency stop for every connected robot
+  const handleStopAll = useCallback(async () => {
+    handleJoystickStop();
+    await HapticService.heavyTap();
+    await stopAll();
+  }, [handleJoystickStop, stopAll]);
+
+  // Phone override for the remote relay: pause the browser or resume it
+  const handleRelayControl = useCallback(async () => {
+    await HapticService.heavyTap();
+    if (relayStatus.state === "remote") {
+      takeOverRelay();
+    } else {
+      handBackRelay();
+    }
+  }, [relayStatus.state, takeOverRelay, handBackRelay]);
+
+  const handleRelayRevoke = useCallback(async () => {
+    await HapticService.warning();
+    revokeRelay();
+  }, [revokeRelay]);
+
+  const showQuickConnect =
+    lastRobot !== null && (state === "disconnected" || state === "error");
+
   return (
     <View
       style={[
@@ -190,17 +341,79 @@ export default function ControlScreen() {
     >
       {/* Header: App title and Bluetooth connection button */}
       <View style={styles.header}>
-        <View>
+        <View style={styles.headerLeft}>
           <Text style={styles.title}>
             <Text style={styles.titleBeetle}>Beetle</Text>
             <Text style={styles.titleBot}>Bot</Text>
           </Text>
+
+          {/* Fleet: broadcast stop to every robot */}
+          {fleetRobots.length > 0 && (
+            <Pressable style={styles.stopAllButton} onPress={handleStopAll}>
+              <Text style={styles.stopAllText}>STOP ALL</Text>
+            </Pressable>
+          )}
+
+          {/* Drive mode toggle: 4-way letters or proportional stream */}
+          {canDriveCardinal && canDriveProportional && (
+            <Pressable
+              style={styles.modeButton}
+              onPress={handleDriveModeToggle}
+            >
+              <Text style={styles.modeText}>
+                {driveMode === "proportional" ? "ANALOG" : "4-WAY"}
+              </Text>
+            </Pressable>
+          )}
         </View>
 
-        <BluetoothConnectorV2
-          onConnected={handleConnected}
-          onDisconnected={handleDisconnected}
-        />
+        <View style={styles.headerRight}>
+          {/* Fleet panel: connect more robots, choose the driven one */}
+          <Pressable
+            style={styles.devButton}
+            onPress={() => router.push("/fleet")}
+          >
+            <FontAwesome
+              name="th-large"
+              size={16}
+              color={fleetRobots.length > 0 ? "#FF9E42" : "#999"}
+            />
+          </Pressable>
+          {/* Two players on one tablet, one robot each */}
+          <Pressable
+            style={styles.devButton}
+            onPress={() => router.push("/split")}
+          >
+            <FontAwesome name="columns" size={16} color="#999" />
+          </Pressable>
+          {/* Remote relay: a browser drives through this phone */}
+          <Pressable
+            style={styles.devButton}
+            onPress={() => router.push("/relay")}
+          >
+            <FontAwesome
+              name="globe"
+              size={16}
+              color={relayStatus.state === "off" ? "#999" : "#FF9E42"}
+            />
+          </Pressable>
+          {/* Developer tools: traffic log, GATT explorer for BLE links */}
+          <Pressable
+            style={styles.devButton}
+            onPress={() => router.push("/traffic")}
+          >
+            <FontAwesome name="exchange" size={16} color="#999" />
+          </Pressable>
+          {state === "connected" && connectedDevice?.transport === "ble" && (
+            <Pressable
+              style={styles.devButton}
+              onPress={() => router.push("/gatt")}
+            >
+              <FontAwesome name="code" size={16} color="#999" />
+            </Pressable>
+          )}
+          <BluetoothConnectorV2 onDisconnected={handleDisconnected} />
+        </View>
       </View>
 
       {/* Layout: Joystick on left, Gear/Claw controls on right */}
@@ -223,20 +436,93 @@ export default function ControlScreen() {
             <View style={styles.gearWrapper}>
               <GearSelector onGearChange={handleGearChange} size={200} />
             </View>
-            <View style={styles.clawWrapper}>
-              <ClawControl onToggle={handleClawToggle} size={120} />
-            </View>
+            {hasClaw && (
+              <View style={styles.clawWrapper}>
+                <ClawControl onToggle={handleClawToggle} size={120} />
+              </View>
+            )}
           </View>
         </View>
+
+        {/* Link quality overlay: latency, loss and signal */}
+        {drivesMainLink && isLinkUp && linkQuality && (
+          <View style={styles.hudWrapper} pointerEvents="none">
+            <LinkQualityHud quality={linkQuality} />
+          </View>
+        )}
       </View>
 
+      {/* Quick connect: last robot, without opening the picker */}
+      {showQuickConnect && (
+        <Pressable style={styles.quickConnectBar} onPress={handleQuickConnect}>
+          <View
+            style={[styles.robotDot, { backgroundColor: lastRobot.color }]}
+          />
+          <Text style={styles.quickConnectText}>
+            Connect to {robotDisplayName(lastRobot)}
+          </Text>
+        </Pressable>
+      )}
+
+      {/* Link lost: robot stopped answering heartbeats */}
+      {drivesMainLink && state === "linkLost" && (
+        <View style={styles.linkLostBar}>
+          <Text style={styles.linkLostText}>
+            ⚠ Link lost — waiting for robot…
+          </Text>
+        </View>
+      )}
+
+      {/* Remote relay: who is driving, with the phone's override */}
+      {(relayStatus.state === "remote" ||
+        relayStatus.state === "overridden") && (
+        <View style={styles.relayBar}>
+          <Text style={styles.relayText}>
+            {relayStatus.state === "remote"
+              ? `Browser ${relayStatus.clientAddress ?? ""} is driving`
+              : "Browser paused — phone has control"}
+          </Text>
+          <Pressable
+            style={styles.relayButton}
+            onPress={handleRelayControl}
+          >
+            <Text style={styles.relayButtonText}>
+              {relayStatus.state === "remote" ? "Take over" : "Hand back"}
+            </Text>
+          </Pressable>
+          <Pressable
+            style={styles.relayButton}
+            onPress={handleRelayRevoke}
+          >
+            <Text style={styles.relayButtonText}>Revoke</Text>
+          </Pressable>
+        </View>
+      )}
+
       {/* Status bar: Connection and current state indicators */}
-      {connectedDeviceId && (
+      {isLinkUp && firmware && (
         <View style={styles.statusBar}>
-          <Text style={styles.statusText}>✓ Connected</Text>
           <Text style={styles.statusText}>
-            Gear: {currentGear} | Claw: {clawOpen ? "OPEN" : "CLOSED"}
+            {drivesMainLink
+              ? `✓ Connected${firmware.legacy ? "" : ` to ${firmware.name}`}`
+              : `✓ Driving fleet robot ${drivenDevice?.name ?? ""}`}
+          </Text>
+          <Text style={styles.statusText}>
+            Gear: {currentGear} |{" "}
+            {hasClaw && `Claw: ${clawOpen ? "OPEN" : "CLOSED"} | `}
+            Drive: {driveMode === "proportional" ? "Analog" : "4-way"}
           </Text>
+          {/* Latest robot telemetry, greyed out once it stops arriving */}
+          {telemetry && (
+            <Text
+              style={[styles.statusText, telemetryStale && styles.staleText]}
+            >
+              Battery: {Math.round(telemetry.battery)}% | Speed:{" "}
+              {Math.round(telemetry.speed)} | Temp:{" "}
+              {telemetry.temperature.toFixed(1)}°C
+              {telemetryStale ? " | stale" : ""}
+            </Text>
+          )}
         </View>
       )}
     </View>
@@ -258,6 +544,73 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "#f0f0f0",
   },
+  headerLeft: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  headerRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  devButton: {
+    padding: 8,
+  },
+  relayBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFF4E6",
+    borderTopWidth: 1,
+    borderTopColor: "#FF9E42",
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  relayText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#FF9E42",
+    fontWeight: "600",
+  },
+  relayButton: {
+    borderColor: "#FF9E42",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  relayButtonText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#FF9E42",
+  },
+  stopAllButton: {
+    backgroundColor: "#FEE2E2",
+    borderColor: "#ef4444",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  stopAllText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#ef4444",
+  },
+  modeButton: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  modeText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#FF9E42",
+  },
   title: {
     fontSize: 24,
     fontWeight: "700",
@@ -276,6 +629,13 @@ const styles = StyleSheet.create({
     paddingRight: 32, // Balance right padding
     justifyContent: "space-between", // Space between joystick and controls
   },
+  hudWrapper: {
+    position: "absolute",
+    top: 8,
+    left: 0,
+    right: 0,
+    alignItems: "center",
+  },
   leftSection: {
     flex: 0, // Don't flex, use fixed size
     justifyContent: "center",
@@ -327,4 +687,39 @@ const styles = StyleSheet.create({
     color: "#10b981",
     fontWeight: "500",
   },
+  staleText: {
+    color: "#999",
+  },
+  quickConnectBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FFF4E6",
+    borderTopWidth: 1,
+    borderTopColor: "#FF9E42",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  robotDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  quickConnectText: {
+    fontSize: 12,
+    color: "#FF9E42",
+    fontWeight: "600",
+  },
+  linkLostBar: {
+    backgroundColor: "#FEE2E2",
+    borderTopWidth: 1,
+    borderTopColor: "#ef4444",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  linkLostText: {
+    fontSize: 12,
+    color: "#ef4444",
+    fontWeight: "600",
+  },
 });
@@ -0,0 +1,279 @@
+import React from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useRemoteRelay } from "@contexts/remoteRelayContext";
+import { HapticService } from "@services/hapticService";
+import type { RelayState } from "../src/types";
+
+const STATE_LABELS: Record<RelayState, { label: string; color: string }> = {
+  off: { label: "Off", color: "#999" },
+  waiting: { label: "Waiting for a browser", color: "#FF9E42" },
+  remote: { label: "Browser driving", color: "#10b981" },
+  overridden: { label: "Phone has control", color: "#ef4444" },
+};
+
+/**
+ * Remote driving from a browser on the same Wi-Fi, through this phone
+ * Shows the address and PIN to give the coach, and the phone's controls
+ * for taking back or cutting off the browser.
+ */
+export default function RelayScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { connectedDevice } = useBluetooth();
+  const { status, startRelay, stopRelay, takeOver, handBack, revoke } =
+    useRemoteRelay();
+
+  const isRunning = status.state !== "off";
+  const hasBrowser =
+    status.state === "remote" || status.state === "overridden";
+  const stateLabel = STATE_LABELS[status.state];
+
+  const handleToggle = async () => {
+    await HapticService.mediumTap();
+    if (isRunning) {
+      stopRelay();
+    } else {
+      await startRelay();
+    }
+  };
+
+  const handleTakeOver = async () => {
+    await HapticService.heavyTap();
+    takeOver();
+  };
+
+  const handleHandBack = async () => {
+    await HapticService.lightTap();
+    handBack();
+  };
+
+  const handleRevoke = async () => {
+    await HapticService.warning();
+    revoke();
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button, title and relay switch */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>Remote Relay</Text>
+        <Text style={[styles.stateText, { color: stateLabel.color }]}>
+          {stateLabel.label}
+        </Text>
+        <Pressable
+          style={[styles.pill, isRunning && styles.pillActive]}
+          onPress={handleToggle}
+        >
+          <Text style={[styles.pillText, isRunning && styles.pillTextActive]}>
+            {isRunning ? "Stop relay" : "Start relay"}
+          </Text>
+        </Pressable>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {status.error && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorText}>{status.error}</Text>
+          </View>
+        )}
+
+        {!connectedDevice && (
+          <Text style={styles.hintText}>
+            Connect a robot first: the browser drives the robot connected to
+            this phone.
+          </Text>
+        )}
+
+        {isRunning ? (
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Connect from a browser</Text>
+            <Text style={styles.bodyText}>
+              On a laptop on the same Wi-Fi, open
+            </Text>
+            <Text style={styles.address}>
+              http://&lt;phone IP&gt;:{status.port}
+            </Text>
+            <Text style={styles.hintText}>
+              The phone&apos;s IP address is in its Wi-Fi settings.
+            </Text>
+            <Text style={styles.bodyText}>and enter the PIN</Text>
+            <Text style={styles.pin}>{status.pin}</Text>
+            {status.lockedUntil !== null && (
+              <Text style={styles.warningText}>
+                Locked for 30 s after repeated wrong PINs. Someone may be
+                guessing; the PIN above is new.
+              </Text>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.hintText}>
+            Start the relay to let a coach drive the robot from a laptop
+            browser. The phone can take over or cut the browser off at any
+            time.
+          </Text>
+        )}
+
+        {hasBrowser && (
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Browser</Text>
+            <Text style={styles.bodyText}>{status.clientAddress}</Text>
+            <View style={styles.actions}>
+              {status.state === "remote" ? (
+                <Pressable style={styles.takeOverButton} onPress={handleTakeOver}>
+                  <FontAwesome name="hand-paper-o" size={14} color="#fff" />
+                  <Text style={styles.takeOverText}>Take over</Text>
+                </Pressable>
+              ) : (
+                <Pressable style={styles.pill} onPress={handleHandBack}>
+                  <Text style={styles.pillText}>Hand back</Text>
+                </Pressable>
+              )}
+              <Pressable style={styles.pill} onPress={handleRevoke}>
+                <Text style={styles.pillText}>Revoke</Text>
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  stateText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  content: {
+    gap: 16,
+    padding: 16,
+  },
+  panel: {
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+    padding: 16,
+    gap: 4,
+  },
+  panelTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#333",
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: "#666",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#999",
+  },
+  warningText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#ef4444",
+    marginTop: 4,
+  },
+  address: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  pin: {
+    fontSize: 36,
+    fontWeight: "700",
+    letterSpacing: 8,
+    color: "#FF9E42",
+  },
+  errorBox: {
+    backgroundColor: "#FEE2E2",
+    borderRadius: 8,
+    padding: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#ef4444",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+  },
+  takeOverButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#ef4444",
+  },
+  takeOverText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  pill: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  pillActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  pillTextActive: {
+    color: "#FF9E42",
+  },
+});
@@ -0,0 +1,326 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  AppState,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { HapticService } from "@services/hapticService";
+import { ReadinessService } from "@services/readinessService";
+import type { ConnectionErrorReason, ReadinessResult } from "../src/types";
+
+interface Guide {
+  title: string;
+  body: string;
+  action: string | null; // Button label, null when nothing can be done
+}
+
+// Step-by-step help for each readiness issue
+const GUIDES: Partial<Record<ConnectionErrorReason, Guide>> = {
+  permissionDenied: {
+    title: "Allow Bluetooth access",
+    body: "BeetleBot needs the Nearby devices and Location permissions to find and talk to your robot. Nothing is tracked or shared.",
+    action: "Grant Permission",
+  },
+  locationOff: {
+    title: "Turn on Location",
+    body: "Android only reports nearby Bluetooth devices while Location is switched on. You can turn it off again after driving.",
+    action: "Turn On Location",
+  },
+  bluetoothOff: {
+    title: "Turn on Bluetooth",
+    body: "Bluetooth is switched off. Turn it on, then come back here.",
+    action: "Open Bluetooth Settings",
+  },
+  unsupported: {
+    title: "Bluetooth not available",
+    body:
+      Platform.OS === "web"
+        ? "This browser has no Web Bluetooth. Open the app in Chrome or Edge, or connect over Wi-Fi or to the virtual robot."
+        : "This phone has no adapter for the selected link type. Try the other link type or the virtual robot.",
+    action: null,
+  },
+  unknown: {
+    title: "Bluetooth is starting",
+    body: "The Bluetooth adapter has not reported its state yet. Give it a moment and check again.",
+    action: null,
+  },
+};
+
+/**
+ * Guided fixes for missing permissions, location services and adapter power
+ */
+export default function SetupScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { checkReadiness } = useBluetooth();
+  const [result, setResult] = useState<ReadinessResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const runCheck = useCallback(
+    async (request: boolean) => {
+      setIsChecking(true);
+      try {
+        setResult(await checkReadiness(request));
+      } finally {
+        setIsChecking(false);
+      }
+    },
+    [checkReadiness]
+  );
+
+  // Check on open, and again when returning from the system settings
+  useEffect(() => {
+    runCheck(false);
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "active") {
+        runCheck(false);
+      }
+    });
+    return () => subscription.remove();
+  }, [runCheck]);
+
+  const issue = result?.issue ?? null;
+  const guide = issue ? GUIDES[issue] : undefined;
+
+  // Ask again while Android still allows it, else open the fix in Settings
+  const handleAction = async () => {
+    if (!result || !issue) return;
+    await HapticService.mediumTap();
+    if (issue === "permissionDenied" && result.canAskAgain) {
+      await runCheck(true);
+      return;
+    }
+    await ReadinessService.openRemedy(issue);
+    await runCheck(false);
+  };
+
+  const handleDone = async () => {
+    await HapticService.lightTap();
+    router.back();
+  };
+
+  const steps = result
+    ? [
+        {
+          key: "permissions",
+          icon: "lock" as const,
+          label: "Permissions",
+          done: result.permissionsGranted && result.adapter !== "unauthorized",
+        },
+        ...(Platform.OS === "android"
+          ? [
+              {
+                key: "location",
+                icon: "map-marker" as const,
+                label: "Location services",
+                done: result.locationEnabled,
+              },
+            ]
+          : []),
+        {
+          key: "bluetooth",
+          icon: "bluetooth" as const,
+          label: "Bluetooth",
+          done: result.adapter === "poweredOn",
+        },
+      ]
+    : [];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button and title */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={handleDone}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>Get Ready to Connect</Text>
+        {isChecking && <ActivityIndicator size="small" color="#FF9E42" />}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Checklist */}
+        <View style={styles.steps}>
+          {steps.map((step) => (
+            <View key={step.key} style={styles.step}>
+              <FontAwesome name={step.icon} size={18} color="#FF9E42" />
+              <Text style={styles.stepLabel}>{step.label}</Text>
+              <FontAwesome
+                name={step.done ? "check-circle" : "times-circle"}
+                size={18}
+                color={step.done ? "#10b981" : "#ef4444"}
+              />
+            </View>
+          ))}
+        </View>
+
+        {/* Guidance for the first thing to fix */}
+        <View style={styles.guide}>
+          {result?.ready ? (
+            <>
+              <Text style={styles.guideTitle}>You are all set</Text>
+              <Text style={styles.guideBody}>
+                Bluetooth is ready. Head back and tap Connect to find your
+                robot.
+              </Text>
+              <Pressable
+                style={[styles.actionButton, styles.actionButtonReady]}
+                onPress={handleDone}
+              >
+                <Text style={styles.actionText}>Find Robots</Text>
+              </Pressable>
+            </>
+          ) : guide ? (
+            <>
+              <Text style={styles.guideTitle}>{guide.title}</Text>
+              <Text style={styles.guideBody}>{guide.body}</Text>
+              {issue === "permissionDenied" && !result?.canAskAgain && (
+                <Text style={styles.guideHint}>
+                  Permission was blocked. Enable it under App info →
+                  Permissions.
+                </Text>
+              )}
+              <View style={styles.actions}>
+                {guide.action && (
+                  <Pressable style={styles.actionButton} onPress={handleAction}>
+                    <Text style={styles.actionText}>{guide.action}</Text>
+                  </Pressable>
+                )}
+                <Pressable
+                  style={styles.secondaryButton}
+                  onPress={() => runCheck(false)}
+                >
+                  <Text style={styles.secondaryText}>Check Again</Text>
+                </Pressable>
+              </View>
+            </>
+          ) : null}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  content: {
+    flexDirection: "row",
+    gap: 16,
+    padding: 16,
+  },
+  steps: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  step: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  stepLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  guide: {
+    flex: 1.5,
+    gap: 8,
+    padding: 16,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  guideTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+  },
+  guideBody: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 19,
+  },
+  guideHint: {
+    fontSize: 12,
+    color: "#ef4444",
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    alignSelf: "flex-start",
+    backgroundColor: "#FF9E42",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  actionButtonReady: {
+    backgroundColor: "#10b981",
+    marginTop: 8,
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  secondaryText: {
+    color: "#999",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { PlayerPad } from "@components/PlayerPad";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useFleet } from "@contexts/fleetContext";
+import {
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import { HapticService } from "@services/hapticService";
+import type { BluetoothDevice } from "../src/types";
+
+// Player 1 sits at the bottom edge, player 2 across the table
+const PLAYERS = [
+  { label: "Player 1", mirrored: false },
+  { label: "Player 2", mirrored: true },
+];
+
+/**
+ * Two-player mode for one tablet: each half drives its own robot, the top
+ * half upside down for the player sitting opposite
+ */
+export default function SplitScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { connectedDevice } = useBluetooth();
+  const { robots: fleetRobots, stopAll } = useFleet();
+  const { getRobot } = useKnownRobots();
+
+  // Robots a player can take: the main link and every fleet robot
+  const available = useMemo<BluetoothDevice[]>(
+    () => [
+      ...(connectedDevice ? [connectedDevice] : []),
+      ...fleetRobots.map((robot) => robot.device),
+    ],
+    [connectedDevice, fleetRobots]
+  );
+
+  // Device id per player; null until a robot is picked
+  const [seats, setSeats] = useState<(string | null)[]>(() =>
+    PLAYERS.map((_, index) => available[index]?.id ?? null)
+  );
+
+  // Free a seat whose robot is no longer connected or in the fleet
+  useEffect(() => {
+    setSeats((prev) => {
+      const next = prev.map((id) =>
+        id !== null && available.some((device) => device.id === id)
+          ? id
+          : null
+      );
+      return next.every((id, index) => id === prev[index]) ? prev : next;
+    });
+  }, [available]);
+
+  const displayName = (device: BluetoothDevice) => {
+    const known = getRobot(device.id);
+    return known ? robotDisplayName(known) : device.name;
+  };
+
+  const handlePick = async (player: number, id: string) => {
+    await HapticService.lightTap();
+    setSeats((prev) =>
+      prev.map((seat, index) => (index === player ? id : seat))
+    );
+  };
+
+  const handleStopAll = async () => {
+    await HapticService.heavyTap();
+    await stopAll();
+  };
+
+  const renderHalf = (player: number) => {
+    const { label, mirrored } = PLAYERS[player];
+    const seat = seats[player];
+    return (
+      <View key={label} style={[styles.half, mirrored && styles.mirrored]}>
+        {/* Robot choice; robots taken by the other player are disabled */}
+        <View style={styles.picker}>
+          <Text style={styles.playerLabel}>{label}</Text>
+          {available.map((device) => {
+            const isMine = device.id === seat;
+            const isTaken = !isMine && seats.includes(device.id);
+            return (
+              <Pressable
+                key={device.id}
+                style={[
+                  styles.pill,
+                  isMine && styles.pillActive,
+                  isTaken && styles.pillTaken,
+                ]}
+                onPress={() => handlePick(player, device.id)}
+                disabled={isTaken}
+              >
+                <View
+                  style={[
+                    styles.robotDot,
+                    { backgroundColor: getRobot(device.id)?.color ?? "#999" },
+                  ]}
+                />
+                <Text
+                  style={[styles.pillText, isMine && styles.pillTextActive]}
+                >
+                  {displayName(device)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {seat !== null ? (
+          <PlayerPad
+            // A new robot gets a fresh pad; the old one stops its robot
+            key={seat}
+            robotId={seat === connectedDevice?.id ? null : seat}
+            mirrored={mirrored}
+          />
+        ) : (
+          <Text style={styles.emptyText}>
+            {available.length > 0
+              ? "Pick a robot to drive"
+              : "Connect robots from the Fleet screen first"}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {renderHalf(1)}
+
+      {/* Divider: leave and emergency stop, reachable from both sides */}
+      <View style={styles.divider}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Pressable style={styles.stopAllButton} onPress={handleStopAll}>
+          <FontAwesome name="hand-paper-o" size={14} color="#fff" />
+          <Text style={styles.stopAllText}>STOP ALL</Text>
+        </Pressable>
+        <View style={styles.backButton} />
+      </View>
+
+      {renderHalf(0)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  half: {
+    flex: 1,
+  },
+  mirrored: {
+    transform: [{ rotate: "180deg" }],
+  },
+  picker: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  playerLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#333",
+    marginRight: 4,
+  },
+  pill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  pillActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  pillTaken: {
+    opacity: 0.4,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  pillTextActive: {
+    color: "#FF9E42",
+  },
+  robotDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  emptyText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    textAlignVertical: "center",
+    padding: 24,
+  },
+  divider: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    backgroundColor: "#fff",
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+    width: 32,
+  },
+  stopAllButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#ef4444",
+  },
+  stopAllText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#fff",
+  },
+});
@@ -0,0 +1,419 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { FontAwesome } from "@expo/vector-icons";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { HapticService } from "@services/hapticService";
+import { trafficLog, TRAFFIC_LOG_CAPACITY } from "@services/trafficLog";
+import { PayloadCodec, PayloadFormat } from "@utils/payloadCodec";
+import type {
+  SchedulerStats,
+  TrafficEntry,
+  WriteMode,
+} from "../src/types";
+
+type DirectionFilter = "all" | TrafficEntry["direction"];
+
+const DIRECTIONS: { filter: DirectionFilter; label: string }[] = [
+  { filter: "all", label: "All" },
+  { filter: "out", label: "Sent" },
+  { filter: "in", label: "Received" },
+];
+
+const FORMATS: { format: PayloadFormat; label: string }[] = [
+  { format: "text", label: "Text" },
+  { format: "hex", label: "Hex" },
+];
+
+const WRITE_MODE_LABELS: Record<WriteMode, string> = {
+  withResponse: "RSP",
+  withoutResponse: "NO-RSP",
+  stream: "STREAM",
+};
+
+const REFRESH_INTERVAL_MS = 500;
+
+// 14:03:07.412
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+/**
+ * Live view of every frame sent to and received from the robot
+ */
+export default function TrafficScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { getQueueStats } = useBluetooth();
+  const [entries, setEntries] = useState<TrafficEntry[]>(() =>
+    trafficLog.getEntries()
+  );
+  const [isPaused, setIsPaused] = useState(false);
+  const [direction, setDirection] = useState<DirectionFilter>("all");
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [search, setSearch] = useState("");
+  const [format, setFormat] = useState<PayloadFormat>("text");
+  const [queueStats, setQueueStats] = useState<SchedulerStats | null>(null);
+
+  // Poll the log while live; pausing freezes the current snapshot
+  useEffect(() => {
+    if (isPaused) return;
+    let lastId = -1;
+    const refresh = () => {
+      setQueueStats(getQueueStats());
+      const id = trafficLog.getLastId();
+      if (id === lastId) return;
+      lastId = id;
+      setEntries(trafficLog.getEntries());
+    };
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPaused, getQueueStats]);
+
+  // Newest first, after filters
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries
+      .filter(
+        (entry) =>
+          (direction === "all" || entry.direction === direction) &&
+          (!errorsOnly || entry.error !== null) &&
+          (!query || entry.data.toLowerCase().includes(query))
+      )
+      .reverse();
+  }, [entries, direction, errorsOnly, search]);
+
+  const stats = useMemo(() => {
+    const writes = entries.filter(
+      (entry) => entry.direction === "out" && entry.durationMs !== null
+    );
+    const total = writes.reduce(
+      (sum, entry) => sum + (entry.durationMs ?? 0),
+      0
+    );
+    return {
+      sent: writes.length,
+      received: entries.length - writes.length,
+      errors: entries.filter((entry) => entry.error !== null).length,
+      averageMs: writes.length > 0 ? Math.round(total / writes.length) : null,
+    };
+  }, [entries]);
+
+  const handlePauseToggle = async () => {
+    await HapticService.lightTap();
+    setIsPaused((paused) => !paused);
+  };
+
+  const handleClear = async () => {
+    await HapticService.mediumTap();
+    trafficLog.clear();
+    setEntries([]);
+  };
+
+  const renderEntry = ({ item }: { item: TrafficEntry }) => {
+    const isOut = item.direction === "out";
+    return (
+      <View style={styles.entry}>
+        <Text style={styles.entryTime}>{formatTime(item.timestamp)}</Text>
+        <FontAwesome
+          name={isOut ? "arrow-up" : "arrow-down"}
+          size={11}
+          color={isOut ? "#FF9E42" : "#10b981"}
+        />
+        <Text
+          style={[styles.entryData, item.error !== null && styles.entryError]}
+          numberOfLines={2}
+          selectable
+        >
+          {PayloadCodec.format(item.data, format)}
+          {item.error !== null && `  ✗ ${item.error}`}
+        </Text>
+        {item.writeMode && (
+          <Text style={styles.entryMeta}>
+            {WRITE_MODE_LABELS[item.writeMode]}
+          </Text>
+        )}
+        {item.durationMs !== null && (
+          <Text style={styles.entryMeta}>{item.durationMs} ms</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          paddingTop: insets.top,
+          paddingLeft: insets.left,
+          paddingRight: insets.right,
+          paddingBottom: insets.bottom,
+        },
+      ]}
+    >
+      {/* Header: back button, title, pause and clear */}
+      <View style={styles.header}>
+        <Pressable style={styles.backButton} onPress={() => router.back()}>
+          <FontAwesome name="chevron-left" size={16} color="#999" />
+        </Pressable>
+        <Text style={styles.title}>Traffic</Text>
+        <Text style={styles.summary}>
+          {stats.sent} sent · {stats.received} received · {stats.errors}{" "}
+          errors
+          {stats.averageMs !== null && ` · avg write ${stats.averageMs} ms`}
+          {queueStats &&
+            ` · queue ${queueStats.queueDepth} · ${queueStats.droppedUpdates} coalesced · ${Math.round(queueStats.rateHz)} Hz`}
+        </Text>
+        <View style={styles.headerActions}>
+          <Pressable
+            style={[styles.headerButton, isPaused && styles.headerButtonActive]}
+            onPress={handlePauseToggle}
+          >
+            <FontAwesome
+              name={isPaused ? "play" : "pause"}
+              size={12}
+              color={isPaused ? "#FF9E42" : "#999"}
+            />
+            <Text
+              style={[
+                styles.headerButtonText,
+                isPaused && styles.headerButtonTextActive,
+              ]}
+            >
+              {isPaused ? "Resume" : "Pause"}
+            </Text>
+          </Pressable>
+          <Pressable style={styles.headerButton} onPress={handleClear}>
+            <FontAwesome name="trash" size={12} color="#999" />
+            <Text style={styles.headerButtonText}>Clear</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {/* Filters */}
+      <View style={styles.filters}>
+        {DIRECTIONS.map((option) => (
+          <Pressable
+            key={option.filter}
+            style={[
+              styles.pill,
+              option.filter === direction && styles.pillActive,
+            ]}
+            onPress={() => setDirection(option.filter)}
+          >
+            <Text
+              style={[
+                styles.pillText,
+                option.filter === direction && styles.pillTextActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          style={[styles.pill, errorsOnly && styles.pillActive]}
+          onPress={() => setErrorsOnly((value) => !value)}
+        >
+          <Text style={[styles.pillText, errorsOnly && styles.pillTextActive]}>
+            Errors
+          </Text>
+        </Pressable>
+        <TextInput
+          style={styles.searchInput}
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Filter payloads"
+          placeholderTextColor="#999"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {FORMATS.map((option) => (
+          <Pressable
+            key={option.format}
+            style={[styles.pill, option.format === format && styles.pillActive]}
+            onPress={() => setFormat(option.format)}
+          >
+            <Text
+              style={[
+                styles.pillText,
+                option.format === format && styles.pillTextActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Frames, newest first */}
+      <FlatList
+        style={styles.list}
+        data={visible}
+        keyExtractor={(entry) => String(entry.id)}
+        renderItem={renderEntry}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {entries.length === 0
+              ? `No traffic yet. The last ${TRAFFIC_LOG_CAPACITY} frames are kept.`
+              : "No frames match the filters"}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fafafa",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: "#fff",
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  summary: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  headerActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  headerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  headerButtonActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  headerButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  headerButtonTextActive: {
+    color: "#FF9E42",
+  },
+  filters: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  pill: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  pillActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  pillTextActive: {
+    color: "#FF9E42",
+  },
+  searchInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#fff",
+    fontSize: 13,
+    color: "#333",
+  },
+  list: {
+    flex: 1,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f5f5f5",
+  },
+  entryTime: {
+    fontSize: 11,
+    color: "#999",
+    fontFamily: "monospace",
+  },
+  entryData: {
+    flex: 1,
+    fontSize: 11,
+    color: "#333",
+    fontFamily: "monospace",
+  },
+  entryError: {
+    color: "#ef4444",
+  },
+  entryMeta: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#999",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+    textAlign: "center",
+    padding: 40,
+  },
+});
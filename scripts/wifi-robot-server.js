@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+/**
+ * Stand-in for a robot on the Wi-Fi link: a WebSocket server speaking the
+ * robot protocol, for testing the app's Wi-Fi transport. The ESP32 sketches
+ * do not have Wi-Fi yet, so this is currently the only Wi-Fi robot.
+ *
+ *   npm run robot:wifi            # listens on port 8081
+ *   PORT=81 npm run robot:wifi    # the app's default port (may need sudo)
+ *
+ * In the app pick Wi-Fi and enter <this computer's IP>:8081.
+ * Text messages: character protocol (F/B/L/R/S, D:l,r, ...), JSON
+ * MotorCommands, "?" handshake, "H" heartbeat and "P:<n>" ping.
+ * Binary messages: 0xBB frames, acknowledged like the firmware does.
+ * Telemetry is pushed every 500 ms while a client is connected.
+ *
+ * Uses only Node's standard library.
+ */
+const crypto = require("crypto");
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 8081;
+const TELEMETRY_INTERVAL_MS = 500;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const FIRMWARE_INFO = JSON.stringify({
+  type: "info",
+  name: "BeetleBot-WiFi-Stand-in",
+  protocol: 1,
+  formats: ["text", "json", "binary"],
+  features: [
+    "cardinal",
+    "proportional",
+    "claw",
+    "heartbeat",
+    "telemetry",
+    "ack",
+    "ping",
+  ],
+});
+
+// Binary protocol (see src/services/protocol/binaryProtocol.ts)
+const FRAME_START = 0xbb;
+const PROTOCOL_VERSION = 1;
+const FRAME_DRIVE = 0x01;
+const FRAME_STOP = 0x02;
+const FRAME_BRAKE = 0x03;
+const FRAME_ACK = 0x80;
+
+function crc16(bytes, start, end) {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function encodeAck(seq) {
+  const frame = Buffer.from([
+    FRAME_START,
+    PROTOCOL_VERSION,
+    FRAME_ACK,
+    seq,
+    0, // No payload
+    0, // CRC
+    0,
+  ]);
+  const crc = crc16(frame, 1, 5);
+  frame[5] = crc >> 8;
+  frame[6] = crc & 0xff;
+  return frame;
+}
+
+// ─── Minimal WebSocket framing (RFC 6455) ────────────────────────────────────
+
+function encodeMessage(payload, opcode) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Pull complete client frames off the buffer; returns the unread remainder
+function decodeMessages(buffer, onMessage) {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+    }
+    onMessage(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+}
+
+// ─── Robot model ─────────────────────────────────────────────────────────────
+
+function createRobot(send) {
+  const state = { left: 0, right: 0, claw: "open", gear: "2", battery: 100 };
+
+  const drive = (left, right) => {
+    state.left = left;
+    state.right = right;
+  };
+
+  const handleText = (text) => {
+    const cmd = text.trim();
+    if (cmd === "?") return send(FIRMWARE_INFO);
+    if (cmd === "H") return send("H");
+    if (cmd.startsWith("P:")) return send(cmd);
+
+    console.log("<-", cmd);
+    if (cmd.startsWith("{")) {
+      try {
+        const command = JSON.parse(cmd);
+        drive(command.leftSpeed ?? 0, command.rightSpeed ?? 0);
+        if (command.gear) state.gear = command.gear;
+        if (typeof command.clawOpen === "boolean") {
+          state.claw = command.clawOpen ? "open" : "closed";
+        }
+      } catch {
+        console.log("   malformed JSON");
+      }
+    } else if (cmd === "F") drive(60, 60);
+    else if (cmd === "B") drive(-60, -60);
+    else if (cmd === "L") drive(-60, 60);
+    else if (cmd === "R") drive(60, -60);
+    else if (cmd === "S" || cmd === "/") drive(0, 0);
+    else if (cmd === "O") state.claw = "open";
+    else if (cmd === "C") state.claw = "closed";
+    else if (cmd.startsWith("D:")) {
+      const [left, right] = cmd.slice(2).split(",").map(Number);
+      drive(left || 0, right || 0);
+    }
+  };
+
+  const handleBinary = (bytes) => {
+    if (bytes.length < 7 || bytes[0] !== FRAME_START) return;
+    const length = bytes[4];
+    const crcOffset = 5 + length;
+    const expected = (bytes[crcOffset] << 8) | bytes[crcOffset + 1];
+    if (crc16(bytes, 1, crcOffset) !== expected) {
+      console.log("<- frame with bad CRC");
+      return;
+    }
+    const type = bytes[2];
+    const seq = bytes[3];
+    console.log(`<- frame type 0x${type.toString(16)} seq ${seq}`);
+    if (type === FRAME_DRIVE) {
+      const toSigned = (byte) => (byte > 0x7f ? byte - 0x100 : byte);
+      drive(toSigned(bytes[5]), toSigned(bytes[6]));
+    } else {
+      if (type === FRAME_STOP || type === FRAME_BRAKE) drive(0, 0);
+      send(encodeAck(seq));
+    }
+  };
+
+  const telemetry = () => {
+    state.battery = Math.max(0, state.battery - 0.01);
+    const speed = (Math.abs(state.left) + Math.abs(state.right)) / 2;
+    return JSON.stringify({
+      type: "telemetry",
+      battery: Math.round(state.battery),
+      isMoving: speed > 0,
+      speed: Math.round(speed),
+      gear: state.gear,
+      temperature: Math.round((38 + Math.random() * 2) * 10) / 10,
+    });
+  };
+
+  return { handleText, handleBinary, telemetry };
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+const server = http.createServer((request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("BeetleBot stand-in: connect with a WebSocket\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + WS_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = `${socket.remoteAddress}:${socket.remotePort}`;
+  console.log("Connected:", client);
+
+  const send = (data) => {
+    if (socket.destroyed) return;
+    socket.write(
+      typeof data === "string"
+        ? encodeMessage(Buffer.from(data, "utf8"), 0x1)
+        : encodeMessage(data, 0x2)
+    );
+  };
+  const robot = createRobot(send);
+  const telemetryInterval = setInterval(
+    () => send(robot.telemetry()),
+    TELEMETRY_INTERVAL_MS
+  );
+
+  let buffer = Buffer.alloc(0);
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    buffer = decodeMessages(buffer, (opcode, payload) => {
+      if (opcode === 0x1) robot.handleText(payload.toString("utf8"));
+      else if (opcode === 0x2) robot.handleBinary(payload);
+      else if (opcode === 0x8) socket.end(encodeMessage(Buffer.alloc(0), 0x8));
+      else if (opcode === 0x9) socket.write(encodeMessage(payload, 0xa));
+    });
+  });
+  socket.on("close", () => {
+    clearInterval(telemetryInterval);
+    console.log("Disconnected:", client);
+  });
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`BeetleBot Wi-Fi stand-in listening on ws://0.0.0.0:${PORT}`);
+});
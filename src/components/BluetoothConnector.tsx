@@ -12,7 +12,6 @@ import {
   Alert,
 } from "react-native";
 import { FontAwesome } from "@expo/vector-icons";
-import type { Device } from "react-native-ble-plx";
 import type { BluetoothDevice } from "../types";
 import { HapticService } from "@services/hapticService";
 import { bluetoothService } from "@services/bluetoothService";
@@ -79,17 +78,7 @@ export function BluetoothConnector({
 
     try {
       await bluetoothService.scanForDevices(
-        (device: Device) => {
-          // Convert BLE device to our BluetoothDevice type
-          const bleDevice: BluetoothDevice = {
-            id: device.id,
-            name: device.name || "Unknown Device",
-            address: device.id,
-            isConnected: false,
-            lastConnected: null,
-            signalStrength: device.rssi || -100,
-          };
-
+        (bleDevice: BluetoothDevice) => {
           // Add device if not already in list
           setAvailableDevices((prev) => {
             const exists = prev.find((d) => d.id === bleDevice.id);
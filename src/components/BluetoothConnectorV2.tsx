@@ -1,23 +1,88 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import {
   StyleSheet,
   View,
   Pressable,
   Text,
+  TextInput,
   Modal,
   FlatList,
   ActivityIndicator,
+  Platform,
 } from "react-native";
 import { FontAwesome } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
 import { HapticService } from "@services/hapticService";
-import { useBle } from "../hooks/useBle";
-import type { Device } from "react-native-ble-plx";
+import { TRANSPORT_OPTIONS, wifiDeviceForHost } from "@services/transports";
+import { DEVICE_PROFILES, getDeviceProfile } from "@services/deviceProfiles";
+import {
+  MAX_RECONNECT_ATTEMPTS,
+  useBluetooth,
+} from "@contexts/bluetoothContext";
+import {
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import { KnownRobotsList } from "./KnownRobotsList";
+import { SignalBars } from "./SignalBars";
+import type {
+  BluetoothDevice,
+  BluetoothState,
+  ConnectionErrorReason,
+  DeviceProfile,
+  KnownRobot,
+  TransportKind,
+} from "../types";
+
+// What to tell the user for each failure
+const ERROR_MESSAGES: Record<ConnectionErrorReason, string> = {
+  permissionDenied:
+    "Bluetooth permission was denied. Allow Nearby devices and Location in Settings.",
+  bluetoothOff: "Bluetooth is off. Turn it on to find your robot.",
+  locationOff:
+    "Location is off. Android needs it to scan for Bluetooth devices.",
+  serviceMissing:
+    "This device is not running BeetleBot firmware. Check the selected profile.",
+  characteristicMissing:
+    "This device has no BeetleBot control characteristic. Check the profile or firmware.",
+  deviceNotFound: "Robot not found. Make sure it is powered on and nearby.",
+  timeout: "The robot did not respond in time. Move closer and try again.",
+  unsupported:
+    Platform.OS === "web"
+      ? "This browser cannot use Bluetooth. Open the app in Chrome or Edge, or use Wi-Fi."
+      : "This phone has no Bluetooth adapter for this link type.",
+  unknown: "Could not connect to the robot. Try again.",
+};
+
+// Failures walked through on the setup screen
+const SETUP_REASONS: ConnectionErrorReason[] = [
+  "permissionDenied",
+  "bluetoothOff",
+  "locationOff",
+  "unsupported",
+];
+
+const DEVICE_ICONS: Record<
+  TransportKind,
+  React.ComponentProps<typeof FontAwesome>["name"]
+> = {
+  ble: "bluetooth",
+  classic: "bluetooth",
+  wifi: "wifi",
+  simulated: "laptop",
+};
+
+// Button text for states without a device name
+const STATE_LABELS: Partial<Record<BluetoothState, string>> = {
+  poweredOff: "Bluetooth Off",
+  unauthorized: "No Permission",
+  scanning: "Scanning...",
+  connecting: "Connecting...",
+  discovering: "Setting up...",
+};
 
 interface BluetoothConnectorV2Props {
-  onConnected?: (
-    deviceId: string,
-    sendCommand: (cmd: string) => Promise<void>
-  ) => void;
+  onConnected?: (device: BluetoothDevice) => void;
   onDisconnected?: () => void;
 }
 
@@ -26,68 +91,198 @@ export function BluetoothConnectorV2({
   onDisconnected,
 }: BluetoothConnectorV2Props) {
   const {
-    device,
-    devicesMap,
+    state,
+    error,
+    connectedDevice,
+    transportKind,
+    setTransportKind,
+    deviceProfile,
+    setDeviceProfile,
+    devices,
     isScanning,
-    connectedDeviceId,
-    showDeviceModal,
-    setShowDeviceModal,
-    scanForDevices,
+    startScan,
     stopScan,
-    connectToDevice,
-    disconnectDevice,
-    sendCommand,
-  } = useBle();
+    connect,
+    disconnect,
+    reconnectAttempt,
+    cancelReconnect,
+  } = useBluetooth();
+  const { getRobot, connectToRobot } = useKnownRobots();
+  const router = useRouter();
+  const [showDeviceModal, setShowDeviceModal] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [wifiAddress, setWifiAddress] = useState("");
+
+  // Strongest signal first; unknown RSSI (Classic) last, then by name
+  const visibleDevices = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return devices
+      .filter((device) => {
+        if (!query) return true;
+        const profileName = getDeviceProfile(device.profileId)?.name ?? "";
+        const alias = getRobot(device.id)?.alias ?? "";
+        return (
+          device.name.toLowerCase().includes(query) ||
+          alias.toLowerCase().includes(query) ||
+          profileName.toLowerCase().includes(query)
+        );
+      })
+      .sort(
+        (a, b) =>
+          b.signalStrength - a.signalStrength || a.name.localeCompare(b.name)
+      );
+  }, [devices, filter, getRobot]);
+
+  // Open the picker and start discovery on the selected link
+  const scanForDevices = async () => {
+    setShowDeviceModal(true);
+    await startScan();
+  };
 
   // Handle device selection from modal
-  const handleDeviceSelect = async (selectedDevice: Device) => {
+  const handleDeviceSelect = async (selectedDevice: BluetoothDevice) => {
     await HapticService.mediumTap();
-    const connected = await connectToDevice(selectedDevice);
-    if (connected && onConnected) {
-      onConnected(selectedDevice.id, sendCommand);
+    const connected = await connect(selectedDevice);
+    if (connected) {
+      setShowDeviceModal(false);
+      onConnected?.(selectedDevice);
     }
   };
 
+  // Wi-Fi: connect to a typed-in IP or host name without scanning
+  const handleAddressConnect = async () => {
+    if (!wifiAddress.trim()) return;
+    stopScan();
+    await handleDeviceSelect(wifiDeviceForHost(wifiAddress));
+  };
+
+  // Connect straight to a remembered robot without waiting for the scan
+  const handleRobotSelect = async (robot: KnownRobot) => {
+    await HapticService.mediumTap();
+    const connected = await connectToRobot(robot);
+    if (connected) {
+      setShowDeviceModal(false);
+    }
+  };
+
   // Handle disconnection with callback
   const handleDisconnect = async () => {
     await HapticService.mediumTap();
-    await disconnectDevice();
+    await disconnect();
     if (onDisconnected) {
       onDisconnected();
     }
   };
 
-  // Toggle connection state
+  // Toggle connection state (pressing while reconnecting gives up)
   const handleConnectPress = async () => {
-    if (connectedDeviceId) {
+    if (isReconnecting) {
+      await HapticService.mediumTap();
+      cancelReconnect();
+      onDisconnected?.();
+    } else if (isConnected) {
       await handleDisconnect();
     } else {
       await scanForDevices();
     }
   };
 
-  const isConnected = !!connectedDeviceId;
-  const devicesList = Array.from(devicesMap.values());
+  // Leave the picker for the step-by-step connection checks
+  const openDiagnostics = async () => {
+    await HapticService.lightTap();
+    stopScan();
+    setShowDeviceModal(false);
+    router.push("/diagnostics");
+  };
+
+  // Switch link type used for scanning and connecting
+  const handleTransportSelect = async (kind: TransportKind) => {
+    if (kind === transportKind) return;
+    await HapticService.lightTap();
+    await setTransportKind(kind);
+  };
+
+  // Restrict BLE scans to one robot variant (null = auto-detect)
+  const handleProfileSelect = async (profile: DeviceProfile | null) => {
+    if (profile?.id === deviceProfile?.id) return;
+    await HapticService.lightTap();
+    setDeviceProfile(profile);
+  };
+
+  const isConnected =
+    state === "connected" || state === "linkLost" || state === "discovering";
+  const isReconnecting = state === "reconnecting";
+  const hasError =
+    state === "error" || state === "poweredOff" || state === "unauthorized";
+
+  const connectedRobot = connectedDevice && getRobot(connectedDevice.id);
+  const connectedRobotName = connectedRobot
+    ? robotDisplayName(connectedRobot)
+    : connectedDevice?.name;
+
+  const buttonLabel = isReconnecting
+    ? `Reconnecting ${reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS}`
+    : state === "connected" || state === "linkLost"
+      ? connectedRobotName || "Connected"
+      : (STATE_LABELS[state] ?? "Connect");
+
+  // Guided setup for phone-side problems, otherwise simply try again
+  const handleErrorAction = async () => {
+    await HapticService.lightTap();
+    if (error && SETUP_REASONS.includes(error.reason)) {
+      setShowDeviceModal(false);
+      router.push("/setup");
+    } else {
+      await scanForDevices();
+    }
+  };
 
   return (
     <View style={styles.container}>
       {/* Connection button: shows status and toggles scan/disconnect */}
       <Pressable
-        style={[styles.button, isConnected && styles.buttonConnected]}
+        style={[
+          styles.button,
+          isConnected && styles.buttonConnected,
+          isReconnecting && styles.buttonReconnecting,
+          (hasError || state === "linkLost") && styles.buttonError,
+        ]}
         onPress={handleConnectPress}
       >
-        <FontAwesome
-          name="bluetooth"
-          size={20}
-          color={isConnected ? "#10b981" : "#999"}
-        />
+        {isReconnecting ? (
+          <ActivityIndicator size="small" color="#FF9E42" />
+        ) : (
+          <FontAwesome
+            name="bluetooth"
+            size={20}
+            color={
+              hasError || state === "linkLost"
+                ? "#ef4444"
+                : isConnected
+                  ? "#10b981"
+                  : "#999"
+            }
+          />
+        )}
         <Text
-          style={[styles.buttonText, isConnected && styles.buttonTextConnected]}
+          style={[
+            styles.buttonText,
+            isConnected && styles.buttonTextConnected,
+            isReconnecting && styles.buttonTextReconnecting,
+            (hasError || state === "linkLost") && styles.buttonTextError,
+          ]}
         >
-          {isConnected ? device?.name || "Connected" : "Connect"}
+          {buttonLabel}
         </Text>
       </Pressable>
 
+      {/* Failure reason while the picker is closed */}
+      {error && !showDeviceModal && (
+        <Text style={styles.errorHint} numberOfLines={2}>
+          {ERROR_MESSAGES[error.reason]}
+        </Text>
+      )}
+
       {/* Device selection modal */}
       <Modal
         visible={showDeviceModal}
@@ -102,34 +297,157 @@ export function BluetoothConnectorV2({
               <Text style={styles.modalTitle}>
                 {isScanning ? "Scanning..." : "Select Device"}
               </Text>
-              <Pressable
-                onPress={() => {
-                  stopScan();
-                  setShowDeviceModal(false);
-                }}
-              >
-                <FontAwesome name="close" size={20} color="#999" />
-              </Pressable>
+              <View style={styles.modalActions}>
+                <Pressable onPress={openDiagnostics}>
+                  <FontAwesome name="stethoscope" size={20} color="#999" />
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    stopScan();
+                    setShowDeviceModal(false);
+                  }}
+                >
+                  <FontAwesome name="close" size={20} color="#999" />
+                </Pressable>
+              </View>
+            </View>
+
+            {/* Remembered robots */}
+            <KnownRobotsList onSelect={handleRobotSelect} />
+
+            {/* Link type selector */}
+            <View style={styles.transportRow}>
+              {TRANSPORT_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.kind}
+                  style={[
+                    styles.transportOption,
+                    option.kind === transportKind &&
+                      styles.transportOptionActive,
+                  ]}
+                  onPress={() => handleTransportSelect(option.kind)}
+                >
+                  <Text
+                    style={[
+                      styles.transportText,
+                      option.kind === transportKind &&
+                        styles.transportTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
             </View>
 
+            {/* BLE device profile selector */}
+            {transportKind === "ble" && (
+              <View style={styles.transportRow}>
+                {[null, ...DEVICE_PROFILES].map((profile) => {
+                  const isActive = profile?.id === deviceProfile?.id;
+                  return (
+                    <Pressable
+                      key={profile?.id ?? "auto"}
+                      style={[
+                        styles.transportOption,
+                        isActive && styles.transportOptionActive,
+                      ]}
+                      onPress={() => handleProfileSelect(profile)}
+                    >
+                      <Text
+                        style={[
+                          styles.transportText,
+                          isActive && styles.transportTextActive,
+                        ]}
+                      >
+                        {profile?.name ?? "Auto"}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Wi-Fi: manual address entry */}
+            {transportKind === "wifi" && (
+              <View style={styles.addressRow}>
+                <TextInput
+                  style={styles.addressInput}
+                  value={wifiAddress}
+                  onChangeText={setWifiAddress}
+                  onSubmitEditing={handleAddressConnect}
+                  placeholder="Robot address, e.g. 192.168.4.1"
+                  placeholderTextColor="#999"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  returnKeyType="go"
+                />
+                <Pressable
+                  style={styles.addressButton}
+                  onPress={handleAddressConnect}
+                >
+                  <Text style={styles.addressButtonText}>Connect</Text>
+                </Pressable>
+              </View>
+            )}
+
+            {/* Why the last scan or connect failed */}
+            {error && !isScanning && (
+              <View style={styles.errorBanner}>
+                <Text style={styles.errorText}>
+                  {ERROR_MESSAGES[error.reason]}
+                </Text>
+                <Pressable
+                  style={styles.errorButton}
+                  onPress={handleErrorAction}
+                >
+                  <Text style={styles.errorButtonText}>
+                    {SETUP_REASONS.includes(error.reason)
+                      ? "Fix It"
+                      : "Try Again"}
+                  </Text>
+                </Pressable>
+              </View>
+            )}
+
             {/* Scanning indicator */}
-            {isScanning && devicesList.length === 0 && (
+            {isScanning && devices.length === 0 && (
               <View style={styles.scanningContainer}>
                 <ActivityIndicator size="large" color="#FF9E42" />
                 <Text style={styles.scanningText}>
-                  Looking for Bluetooth devices...
+                  {transportKind === "wifi"
+                    ? "Looking for robots on the network..."
+                    : "Looking for Bluetooth devices..."}
                 </Text>
               </View>
             )}
 
+            {/* Name / profile filter */}
+            {devices.length > 0 && (
+              <TextInput
+                style={styles.filterInput}
+                value={filter}
+                onChangeText={setFilter}
+                placeholder="Filter by name or profile"
+                placeholderTextColor="#999"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            )}
+
             {/* Device list */}
-            <FlatList<Device>
-              data={devicesList}
+            <FlatList<BluetoothDevice>
+              data={visibleDevices}
               keyExtractor={(item) => item.id}
               ListEmptyComponent={
                 !isScanning ? (
                   <View style={styles.emptyContainer}>
-                    <Text style={styles.emptyText}>No devices found</Text>
+                    <Text style={styles.emptyText}>
+                      {devices.length > 0
+                        ? "No devices match the filter"
+                        : "No devices found"}
+                    </Text>
                     <Pressable
                       style={styles.rescanButton}
                       onPress={scanForDevices}
@@ -139,23 +457,48 @@ export function BluetoothConnectorV2({
                   </View>
                 ) : null
               }
-              renderItem={({ item }) => (
-                <Pressable
-                  style={styles.deviceItem}
-                  onPress={() => handleDeviceSelect(item)}
-                >
-                  <FontAwesome name="bluetooth" size={18} color="#FF9E42" />
-                  <View style={styles.deviceInfo}>
-                    <Text style={styles.deviceName}>
-                      {item.name || item.localName || "Unknown Device"}
-                    </Text>
-                    <Text style={styles.deviceAddress}>{item.id}</Text>
-                  </View>
-                  {item.rssi && (
-                    <Text style={styles.signalStrength}>{item.rssi}dBm</Text>
-                  )}
-                </Pressable>
-              )}
+              renderItem={({ item }) => {
+                const robot = getRobot(item.id);
+                return (
+                  <Pressable
+                    style={styles.deviceItem}
+                    onPress={() => handleDeviceSelect(item)}
+                  >
+                    <FontAwesome
+                      name={DEVICE_ICONS[item.transport]}
+                      size={18}
+                      color="#FF9E42"
+                    />
+                    <View style={styles.deviceInfo}>
+                      <View style={styles.deviceNameRow}>
+                        <Text style={styles.deviceName}>
+                          {robot
+                            ? robotDisplayName(robot)
+                            : item.name || "Unknown Device"}
+                        </Text>
+                        {(robot || item.lastConnected) && (
+                          <Text style={styles.knownBadge}>
+                            Previously used
+                          </Text>
+                        )}
+                      </View>
+                      <Text style={styles.deviceAddress}>
+                        {item.address}
+                        {item.profileId &&
+                          ` · ${getDeviceProfile(item.profileId)?.name}`}
+                      </Text>
+                    </View>
+                    {item.signalStrength > -100 && (
+                      <View style={styles.signal}>
+                        <SignalBars rssi={item.signalStrength} />
+                        <Text style={styles.signalStrength}>
+                          {item.signalStrength}dBm
+                        </Text>
+                      </View>
+                    )}
+                  </Pressable>
+                );
+              }}
             />
           </View>
         </View>
@@ -188,6 +531,10 @@ const styles = StyleSheet.create({
     backgroundColor: "#DCF9E8",
     borderColor: "#10b981",
   },
+  buttonReconnecting: {
+    backgroundColor: "#FFF4E6",
+    borderColor: "#FF9E42",
+  },
   buttonText: {
     fontSize: 13,
     fontWeight: "600",
@@ -196,6 +543,49 @@ const styles = StyleSheet.create({
   buttonTextConnected: {
     color: "#10b981",
   },
+  buttonTextReconnecting: {
+    color: "#FF9E42",
+  },
+  buttonError: {
+    backgroundColor: "#FEE2E2",
+    borderColor: "#ef4444",
+  },
+  buttonTextError: {
+    color: "#ef4444",
+  },
+  errorHint: {
+    maxWidth: 200,
+    marginTop: 4,
+    fontSize: 10,
+    color: "#ef4444",
+    textAlign: "center",
+  },
+  errorBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#FEE2E2",
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#ef4444",
+  },
+  errorButton: {
+    backgroundColor: "#ef4444",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  errorButtonText: {
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "600",
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
@@ -217,11 +607,45 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "#f0f0f0",
   },
+  modalActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 20,
+  },
   modalTitle: {
     fontSize: 16,
     fontWeight: "700",
     color: "#333",
   },
+  transportRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  transportOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+  },
+  transportOptionActive: {
+    backgroundColor: "#FFE5D0",
+    borderColor: "#FF9E42",
+  },
+  transportText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999",
+  },
+  transportTextActive: {
+    color: "#FF9E42",
+  },
   deviceItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -234,21 +658,81 @@ const styles = StyleSheet.create({
   deviceInfo: {
     flex: 1,
   },
+  deviceNameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   deviceName: {
     fontSize: 14,
     fontWeight: "600",
     color: "#333",
   },
+  knownBadge: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#10b981",
+    backgroundColor: "#DCF9E8",
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    overflow: "hidden",
+  },
   deviceAddress: {
     fontSize: 12,
     color: "#999",
     marginTop: 2,
   },
+  signal: {
+    alignItems: "center",
+    gap: 2,
+  },
   signalStrength: {
     fontSize: 12,
     color: "#666",
     fontWeight: "500",
   },
+  addressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  addressInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+    fontSize: 14,
+    color: "#333",
+  },
+  addressButton: {
+    backgroundColor: "#FF9E42",
+    paddingHorizontal: 16,
+    paddingVertical: 9,
+    borderRadius: 8,
+  },
+  addressButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  filterInput: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+    fontSize: 14,
+    color: "#333",
+  },
   scanningContainer: {
     padding: 40,
     alignItems: "center",
@@ -14,9 +14,14 @@ import { HapticService } from "@services/hapticService";
 interface GearSelectorProps {
   onGearChange?: (gear: GearType) => void;
   size?: number;
+  mirrored?: boolean; // Shown rotated 180°: gestures arrive in screen space
 }
 
-export function GearSelector({ onGearChange, size = 140 }: GearSelectorProps) {
+export function GearSelector({
+  onGearChange,
+  size = 140,
+  mirrored = false,
+}: GearSelectorProps) {
   const [selectedGear, setSelectedGear] = useState<GearType>("1");
 
   const sliderHeight = size - 80;
@@ -47,7 +52,7 @@ export function GearSelector({ onGearChange, size = 140 }: GearSelectorProps) {
     })
     .onUpdate((event: any) => {
       "worklet";
-      const dy = event.translationY;
+      const dy = mirrored ? -event.translationY : event.translationY;
 
       // Apply offset for continuity and clamp to bounds
       const newPosition = offsetY.value + dy;
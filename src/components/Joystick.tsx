@@ -23,6 +23,7 @@ interface JoystickProps {
   onMove?: (data: JoystickData) => void;
   onStop?: () => void;
   deadzone?: number;
+  mirrored?: boolean; // Shown rotated 180°: gestures arrive in screen space
 }
 
 export function Joystick({
@@ -30,6 +31,7 @@ export function Joystick({
   onMove,
   onStop,
   deadzone = 0.1,
+  mirrored = false,
 }: JoystickProps) {
   const radius = size / 2;
   const stickSize = size / 3;
@@ -85,8 +87,8 @@ export function Joystick({
     .simultaneousWithExternalGesture(Gesture.Native())
     .onUpdate((event: any) => {
       "worklet";
-      const dx = event.translationX;
-      const dy = event.translationY;
+      const dx = mirrored ? -event.translationX : event.translationX;
+      const dy = mirrored ? -event.translationY : event.translationY;
 
       // Calculate distance and constrain stick to circle boundary
       const distance = Math.sqrt(dx * dx + dy * dy);
@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { StyleSheet, View, Pressable, Text, TextInput } from "react-native";
+import { FontAwesome } from "@expo/vector-icons";
+import { HapticService } from "@services/hapticService";
+import { TRANSPORT_OPTIONS } from "@services/transports";
+import {
+  ROBOT_COLORS,
+  robotDisplayName,
+  useKnownRobots,
+} from "@contexts/knownRobotsContext";
+import type { KnownRobot } from "../types";
+
+interface KnownRobotsListProps {
+  onSelect: (robot: KnownRobot) => void;
+}
+
+// Remembered robots in the user's order, with inline editing
+export function KnownRobotsList({ onSelect }: KnownRobotsListProps) {
+  const { robots, renameRobot, setRobotColor, forgetRobot, moveRobot } =
+    useKnownRobots();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [aliasDraft, setAliasDraft] = useState("");
+
+  if (robots.length === 0) return null;
+
+  // Open (or close) the editor for one robot
+  const toggleEditing = async (robot: KnownRobot) => {
+    await HapticService.lightTap();
+    if (editingId === robot.id) {
+      renameRobot(robot.id, aliasDraft);
+      setEditingId(null);
+    } else {
+      setAliasDraft(robot.alias ?? "");
+      setEditingId(robot.id);
+    }
+  };
+
+  const handleForget = async (robot: KnownRobot) => {
+    await HapticService.mediumTap();
+    forgetRobot(robot.id);
+    setEditingId(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>My Robots</Text>
+      {robots.map((robot, index) => {
+        const isEditing = editingId === robot.id;
+        const transportLabel =
+          TRANSPORT_OPTIONS.find((option) => option.kind === robot.transport)
+            ?.label ?? robot.transport;
+
+        return (
+          <View key={robot.id} style={styles.robot}>
+            <View style={styles.robotRow}>
+              <Pressable
+                style={styles.robotInfo}
+                onPress={() => onSelect(robot)}
+                disabled={isEditing}
+              >
+                <View
+                  style={[styles.colorDot, { backgroundColor: robot.color }]}
+                />
+                <View style={styles.robotText}>
+                  <Text style={styles.robotName}>
+                    {robotDisplayName(robot)}
+                  </Text>
+                  <Text style={styles.robotDetail}>
+                    {robot.alias ? `${robot.name} · ` : ""}
+                    {transportLabel}
+                  </Text>
+                </View>
+              </Pressable>
+              <Pressable
+                style={styles.iconButton}
+                onPress={() => toggleEditing(robot)}
+              >
+                <FontAwesome
+                  name={isEditing ? "check" : "pencil"}
+                  size={16}
+                  color={isEditing ? "#10b981" : "#999"}
+                />
+              </Pressable>
+            </View>
+
+            {/* Alias, color, order and forget */}
+            {isEditing && (
+              <View style={styles.editor}>
+                <TextInput
+                  style={styles.aliasInput}
+                  value={aliasDraft}
+                  onChangeText={setAliasDraft}
+                  onSubmitEditing={() => toggleEditing(robot)}
+                  placeholder={robot.name}
+                  placeholderTextColor="#999"
+                  autoCorrect={false}
+                />
+                <View style={styles.swatches}>
+                  {ROBOT_COLORS.map((color) => (
+                    <Pressable
+                      key={color}
+                      style={[
+                        styles.swatch,
+                        { backgroundColor: color },
+                        color === robot.color && styles.swatchActive,
+                      ]}
+                      onPress={() => setRobotColor(robot.id, color)}
+                    />
+                  ))}
+                </View>
+                <View style={styles.editorActions}>
+                  <Pressable
+                    style={styles.iconButton}
+                    onPress={() => moveRobot(robot.id, -1)}
+                    disabled={index === 0}
+                  >
+                    <FontAwesome
+                      name="arrow-up"
+                      size={16}
+                      color={index === 0 ? "#ddd" : "#666"}
+                    />
+                  </Pressable>
+                  <Pressable
+                    style={styles.iconButton}
+                    onPress={() => moveRobot(robot.id, 1)}
+                    disabled={index === robots.length - 1}
+                  >
+                    <FontAwesome
+                      name="arrow-down"
+                      size={16}
+                      color={index === robots.length - 1 ? "#ddd" : "#666"}
+                    />
+                  </Pressable>
+                  <Pressable
+                    style={styles.forgetButton}
+                    onPress={() => handleForget(robot)}
+                  >
+                    <FontAwesome name="trash" size={14} color="#ef4444" />
+                    <Text style={styles.forgetText}>Forget</Text>
+                  </Pressable>
+                </View>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#999",
+    textTransform: "uppercase",
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  robot: {
+    paddingHorizontal: 16,
+  },
+  robotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  robotInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  colorDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  robotText: {
+    flex: 1,
+  },
+  robotName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  robotDetail: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  editor: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  aliasInput: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "#f5f5f5",
+    fontSize: 14,
+    color: "#333",
+  },
+  swatches: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  swatchActive: {
+    borderColor: "#333",
+  },
+  editorActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  forgetButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginLeft: "auto",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "#FEE2E2",
+  },
+  forgetText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#ef4444",
+  },
+});
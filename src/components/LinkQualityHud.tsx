@@ -0,0 +1,87 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { SignalBars } from "./SignalBars";
+import type { LinkQuality, LinkQualityLevel } from "../types";
+
+interface LinkQualityHudProps {
+  quality: LinkQuality;
+}
+
+const LEVEL_COLORS: Record<LinkQualityLevel, string> = {
+  good: "#10b981",
+  fair: "#FF9E42",
+  poor: "#ef4444",
+  unknown: "#999",
+};
+
+/**
+ * Compact latency / loss / signal readout for the control screen
+ */
+export function LinkQualityHud({ quality }: LinkQualityHudProps) {
+  const color = LEVEL_COLORS[quality.level];
+  const latency =
+    quality.averageRttMs !== null ? `${quality.averageRttMs} ms` : "-- ms";
+  const loss =
+    quality.packetLoss !== null
+      ? `${Math.round(quality.packetLoss * 100)}% loss`
+      : null;
+
+  return (
+    <View
+      style={[styles.container, quality.level === "poor" && styles.poor]}
+      pointerEvents="none"
+    >
+      <View style={styles.row}>
+        <View style={[styles.dot, { backgroundColor: color }]} />
+        <Text style={styles.text}>{latency}</Text>
+        {loss && <Text style={styles.text}>{loss}</Text>}
+        {quality.rssi !== null && (
+          <>
+            <SignalBars rssi={quality.rssi} color={color} />
+            <Text style={styles.text}>{quality.rssi} dBm</Text>
+          </>
+        )}
+      </View>
+      {quality.warnings.length > 0 && (
+        <Text style={styles.warning}>⚠ {quality.warnings.join(" · ")}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    gap: 2,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#f0f0f0",
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+  },
+  poor: {
+    borderColor: "#ef4444",
+    backgroundColor: "#FEE2E2",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#666",
+  },
+  warning: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#ef4444",
+  },
+});
@@ -0,0 +1,239 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Joystick } from "./Joystick";
+import { GearSelector } from "./GearSelector";
+import { ClawControl } from "./ClawControl";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useCardinalDrive } from "../hooks/useCardinalDrive";
+import { useProportionalDrive } from "../hooks/useProportionalDrive";
+import { useRobotTarget } from "../hooks/useRobotTarget";
+import type { GearType, JoystickData, MotorCommand } from "../types";
+
+interface PlayerPadProps {
+  robotId: string | null; // Fleet robot, or null for the main link
+  mirrored?: boolean; // Rotated 180° for the player across the table
+  size?: number; // Joystick diameter
+}
+
+/**
+ * One player's joystick, gear and claw, driving one robot
+ * Keeps its own gear and claw state so two pads can share the screen.
+ * Proportional firmware gets a wheel-speed stream; character firmware
+ * gets 4-way commands.
+ */
+export function PlayerPad({
+  robotId,
+  mirrored = false,
+  size = 160,
+}: PlayerPadProps) {
+  const { setDriving, linkTuning } = useBluetooth();
+  const {
+    device,
+    firmware,
+    telemetry,
+    telemetryStale,
+    isLinkUp,
+    sendCommand,
+    sendMotorCommand,
+  } = useRobotTarget(robotId);
+  const [gear, setGear] = useState<GearType>("1");
+  const [clawOpen, setClawOpen] = useState(false);
+
+  const canDriveProportional =
+    firmware?.features.includes("proportional") ?? false;
+  const hasClaw = firmware?.features.includes("claw") ?? false;
+  const firmwareAppliesGear = firmware?.features.includes("gear") ?? false;
+
+  const sendRobotCommand = useCallback(
+    (type: MotorCommand["type"], overrides: Partial<MotorCommand> = {}) =>
+      sendMotorCommand({
+        type,
+        leftSpeed: 0,
+        rightSpeed: 0,
+        gear,
+        clawOpen,
+        timestamp: Date.now(),
+        ...overrides,
+      }),
+    [sendMotorCommand, gear, clawOpen]
+  );
+
+  const sendDrive = useCallback(
+    (leftSpeed: number, rightSpeed: number) =>
+      sendRobotCommand("joystick", { leftSpeed, rightSpeed }),
+    [sendRobotCommand]
+  );
+
+  // Gear 2 allows full speed, gear 1 caps at 60% (unless the firmware
+  // applies the gear itself)
+  const proportionalDrive = useProportionalDrive(
+    sendDrive,
+    firmwareAppliesGear || gear === "2" ? 100 : 60,
+    linkTuning.sendIntervalMs
+  );
+
+  // Same 4-way commands as the main screen
+  const cardinalDrive = useCardinalDrive(sendCommand, gear);
+
+  // Only the main link's send rate and heartbeat follow the driver
+  const reportDriving = useCallback(
+    (driving: boolean) => {
+      if (robotId === null) setDriving(driving);
+    },
+    [robotId, setDriving]
+  );
+
+  // Stop the robot when this pad lets go of it (robot switched, screen left)
+  const stopRef = useRef(sendRobotCommand);
+  useEffect(() => {
+    stopRef.current = sendRobotCommand;
+  }, [sendRobotCommand]);
+  useEffect(
+    () => () => {
+      stopRef.current("stop").catch(console.error);
+    },
+    []
+  );
+
+  const handleMove = useCallback(
+    (data: JoystickData) => {
+      if (!isLinkUp) return;
+      reportDriving(true);
+
+      if (canDriveProportional) {
+        proportionalDrive.update(data);
+        return;
+      }
+
+      cardinalDrive.update(data);
+    },
+    [
+      isLinkUp,
+      reportDriving,
+      canDriveProportional,
+      proportionalDrive,
+      cardinalDrive,
+    ]
+  );
+
+  const handleStop = useCallback(() => {
+    proportionalDrive.stop();
+    cardinalDrive.reset();
+    if (isLinkUp) {
+      reportDriving(false);
+      sendRobotCommand("stop").catch(console.error);
+    }
+  }, [
+    proportionalDrive,
+    cardinalDrive,
+    isLinkUp,
+    reportDriving,
+    sendRobotCommand,
+  ]);
+
+  // Stop before changing gears to prevent momentum conflicts
+  const handleGearChange = useCallback(
+    (nextGear: GearType) => {
+      setGear(nextGear);
+      proportionalDrive.stop();
+      cardinalDrive.reset();
+      if (isLinkUp) {
+        sendRobotCommand("stop").catch(console.error);
+        if (firmwareAppliesGear) {
+          sendRobotCommand("gear", { gear: nextGear }).catch(console.error);
+        }
+      }
+    },
+    [
+      proportionalDrive,
+      cardinalDrive,
+      isLinkUp,
+      sendRobotCommand,
+      firmwareAppliesGear,
+    ]
+  );
+
+  const handleClawToggle = useCallback(
+    (isOpen: boolean) => {
+      setClawOpen(isOpen);
+      if (isLinkUp) {
+        sendRobotCommand("claw", { clawOpen: isOpen }).catch(console.error);
+      }
+    },
+    [isLinkUp, sendRobotCommand]
+  );
+
+  return (
+    <View style={styles.container}>
+      <Joystick
+        size={size}
+        onMove={handleMove}
+        onStop={handleStop}
+        deadzone={0.1}
+        mirrored={mirrored}
+      />
+
+      {/* Robot status between the controls */}
+      <View style={styles.status}>
+        <Text style={styles.robotName} numberOfLines={1}>
+          {device?.name ?? "No robot"}
+        </Text>
+        <Text style={[styles.statusText, !isLinkUp && styles.offlineText]}>
+          {isLinkUp ? `Gear ${gear}` : "Offline"}
+        </Text>
+        {isLinkUp && telemetry && (
+          <Text style={[styles.statusText, telemetryStale && styles.staleText]}>
+            Battery {Math.round(telemetry.battery)}%
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.controls}>
+        <GearSelector
+          onGearChange={handleGearChange}
+          size={size}
+          mirrored={mirrored}
+        />
+        {hasClaw && (
+          <ClawControl onToggle={handleClawToggle} size={size * 0.55} />
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 24,
+  },
+  status: {
+    flex: 1,
+    alignItems: "center",
+    gap: 2,
+  },
+  robotName: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#10b981",
+  },
+  offlineText: {
+    color: "#ef4444",
+  },
+  staleText: {
+    color: "#999",
+  },
+  controls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+});
@@ -0,0 +1,48 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+interface SignalBarsProps {
+  rssi: number; // dBm, -100 when unknown
+  color?: string;
+}
+
+// RSSI thresholds for 1..4 bars
+const BAR_THRESHOLDS = [-90, -80, -70, -60];
+
+// Number of filled bars (0-4) for an RSSI reading
+export function signalLevel(rssi: number): number {
+  return BAR_THRESHOLDS.filter((threshold) => rssi >= threshold).length;
+}
+
+export function SignalBars({ rssi, color = "#10b981" }: SignalBarsProps) {
+  const level = signalLevel(rssi);
+
+  return (
+    <View style={styles.container}>
+      {BAR_THRESHOLDS.map((threshold, index) => (
+        <View
+          key={threshold}
+          style={[
+            styles.bar,
+            { height: 4 + index * 4 },
+            index < level && { backgroundColor: color },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 2,
+    height: 16,
+  },
+  bar: {
+    width: 4,
+    borderRadius: 1,
+    backgroundColor: "#ddd",
+  },
+});
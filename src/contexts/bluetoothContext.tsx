@@ -3,21 +3,147 @@ import React, {
   ReactNode,
   useCallback,
   useContext,
+  useEffect,
+  useMemo,
+  useRef,
   useState,
 } from "react";
 import type {
   BluetoothDevice,
   BluetoothState,
+  DeviceProfile,
+  DiagnosticStep,
+  DriveActivity,
+  FirmwareInfo,
+  LinkQuality,
+  LinkTuning,
+  MotorCommand,
+  ReadinessResult,
+  SchedulerStats,
+  Transport,
+  TransportKind,
   VehicleTelemetry,
 } from "../types";
-import { bluetoothService } from "@services/bluetoothService";
+import {
+  BleTransport,
+  createTransport,
+  WebBluetoothTransport,
+} from "@services/transports";
+import { getDeviceProfile } from "@services/deviceProfiles";
+import {
+  createCommandEncoder,
+  isTelemetryStale,
+  LEGACY_FIRMWARE,
+  legacyFirmwareInfo,
+  parseTelemetry,
+  ReliableSender,
+  requestFirmwareInfo,
+  selectCommandFormat,
+} from "@services/protocol";
+import { CommandScheduler } from "@services/commandScheduler";
+import { LinkMonitor } from "@services/linkMonitor";
+import { LinkQualityMonitor } from "@services/linkQualityMonitor";
+import { selectLinkTuning } from "@services/linkTuning";
+import { ReadinessService } from "@services/readinessService";
+import { ConnectionDiagnostics } from "@services/diagnostics";
+import {
+  ConnectionError,
+  toConnectionError,
+} from "@services/connectionError";
+
+// How often telemetry freshness is re-evaluated
+const STALE_CHECK_INTERVAL_MS = 500;
+
+// BLE devices re-advertise continuously; drop ones silent for this long
+const DEVICE_TIMEOUT_MS = 8000;
+const DEVICE_PRUNE_INTERVAL_MS = 2000;
+
+// Idle this long after the stick is released counts as parked
+const PARK_AFTER_MS = 30000;
+
+// Automatic reconnection: 1s, 2s, 4s, 8s, 10s between attempts
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+
+// One state for the UI: app-level conditions layered over the link state
+function resolveState(
+  linkState: BluetoothState,
+  options: {
+    firmware: FirmwareInfo | null;
+    linkLost: boolean;
+    reconnecting: boolean;
+    scanning: boolean;
+    error: ConnectionError | null;
+  }
+): BluetoothState {
+  const { firmware, linkLost, reconnecting, scanning, error } = options;
+  if (reconnecting) return "reconnecting";
+  if (linkState === "connected") {
+    // Linked, but the handshake has not finished yet
+    if (!firmware) return "discovering";
+    return linkLost ? "linkLost" : "connected";
+  }
+  if (linkState === "connecting" || linkState === "discovering") {
+    return linkState;
+  }
+  if (scanning) return "scanning";
+  if (error?.reason === "bluetoothOff") return "poweredOff";
+  if (error?.reason === "permissionDenied") return "unauthorized";
+  return error ? "error" : "disconnected";
+}
 
 interface BluetoothContextType {
   state: BluetoothState;
+  error: ConnectionError | null; // Why the last scan or connect failed
   connectedDevice: BluetoothDevice | null;
+  firmware: FirmwareInfo | null; // Set once the connect handshake finishes
   telemetry: VehicleTelemetry | null;
+  telemetryStale: boolean; // No telemetry within TELEMETRY_STALE_MS
+  linkLost: boolean; // Connected, but the robot stopped answering heartbeats
+  linkQuality: LinkQuality | null; // Latency, loss and signal while linked
+  // Send rate, heartbeat and radio priority for the current activity
+  linkTuning: LinkTuning;
+  // Reported by the control screen as the joystick is held and released
+  setDriving: (driving: boolean) => void;
+  reconnectAttempt: number; // Current attempt while reconnecting, 0 otherwise
+
+  // Link type selection
+  transportKind: TransportKind;
+  setTransportKind: (kind: TransportKind) => Promise<void>;
+
+  // BLE device profile; null auto-detects from advertised services
+  deviceProfile: DeviceProfile | null;
+  setDeviceProfile: (profile: DeviceProfile | null) => void;
+
+  // Permissions, location services and adapter power for the selected link
+  checkReadiness: (request?: boolean) => Promise<ReadinessResult>;
+
+  // Drop any connection and prepare diagnostics on the selected link
+  createDiagnostics: (
+    onUpdate: (steps: DiagnosticStep[]) => void
+  ) => Promise<ConnectionDiagnostics>;
+
+  // Connected BLE link, for developer tools that talk GATT directly
+  getConnectedBleTransport: () => BleTransport | null;
+
+  // Discovery
+  devices: BluetoothDevice[];
+  isScanning: boolean;
+  startScan: () => Promise<void>;
+  stopScan: () => void;
+
   connect: (device: BluetoothDevice) => Promise<boolean>;
   disconnect: () => Promise<void>;
+  cancelReconnect: () => void;
+  // Called after an automatic reconnect so callers can restore robot state
+  onReconnected: (listener: (device: BluetoothDevice) => void) => () => void;
+  // Raw text, for character-protocol commands with no MotorCommand form
+  sendCommand: (command: string) => Promise<void>;
+  // Encoded in the firmware's preferred format (acked where supported)
+  sendMotorCommand: (command: MotorCommand) => Promise<void>;
+  // Send scheduler counters for the current link, null when not linked
+  getQueueStats: () => SchedulerStats | null;
   isConnected: () => boolean;
 }
 
@@ -26,52 +152,565 @@ const BluetoothContext = createContext<BluetoothContextType | undefined>(
 );
 
 export function BluetoothProvider({ children }: { children: ReactNode }) {
-  const [state, setState] = useState<BluetoothState>("disconnected");
+  // State of the active transport; see resolveState for what the UI gets
+  const [linkState, setLinkState] = useState<BluetoothState>("disconnected");
+  const [error, setError] = useState<ConnectionError | null>(null);
   const [connectedDevice, setConnectedDevice] =
     useState<BluetoothDevice | null>(null);
+  const [firmware, setFirmware] = useState<FirmwareInfo | null>(null);
   const [telemetry, setTelemetry] = useState<VehicleTelemetry | null>(null);
+  const [telemetryStale, setTelemetryStale] = useState(true);
+  const [linkLost, setLinkLost] = useState(false);
+  const [linkQuality, setLinkQuality] = useState<LinkQuality | null>(null);
+  const [activity, setActivity] = useState<DriveActivity>("parked");
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [transportKind, setTransportKindState] =
+    useState<TransportKind>("ble");
+  const [deviceProfile, setDeviceProfileState] =
+    useState<DeviceProfile | null>(null);
+  // Link currently in use; differs from transportKind for the virtual robot
+  const [activeKind, setActiveKind] = useState<TransportKind>("ble");
+  const [devices, setDevices] = useState<BluetoothDevice[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
 
-  const connect = useCallback(async (device: BluetoothDevice) => {
-    setState("connecting");
-    try {
-      const success = await bluetoothService.connect(device.id); // Use device.id for BLE
-      if (success) {
-        setState("connected");
-        setConnectedDevice(device);
-        return true;
-      } else {
-        setState("error");
-        return false;
+  // Transports are created lazily and reused when switching back
+  const transportsRef = useRef(new Map<TransportKind, Transport>());
+  const transportRef = useRef<Transport | null>(null);
+  const senderRef = useRef<ReliableSender | null>(null);
+  const schedulerRef = useRef<CommandScheduler | null>(null);
+  const linkMonitorRef = useRef<LinkMonitor | null>(null);
+  const parkTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Scan bookkeeping: when each device was last heard and last connected
+  const lastSeenRef = useRef(new Map<string, number>());
+  const connectionHistoryRef = useRef(new Map<string, Date>());
+
+  // Reconnection bookkeeping; a new token cancels any running attempt loop
+  const lastDeviceRef = useRef<BluetoothDevice | null>(null);
+  const userDisconnectRef = useRef(false);
+  const reconnectingRef = useRef(false);
+  const reconnectTokenRef = useRef(0);
+  const reconnectListenersRef = useRef(
+    new Set<(device: BluetoothDevice) => void>()
+  );
+
+  // Handshake, falling back to the device profile's protocol if unanswered
+  const handshake = useCallback(
+    (transport: Transport, device: BluetoothDevice) => {
+      const profile = getDeviceProfile(device.profileId);
+      return requestFirmwareInfo(
+        transport,
+        profile ? legacyFirmwareInfo(profile.protocol) : LEGACY_FIRMWARE
+      );
+    },
+    []
+  );
+
+  const getTransport = useCallback((kind: TransportKind): Transport => {
+    let transport = transportsRef.current.get(kind);
+    if (!transport) {
+      transport = createTransport(kind);
+      transportsRef.current.set(kind, transport);
+    }
+    return transport;
+  }, []);
+
+  // Encode MotorCommands in the format negotiated during the handshake.
+  // Everything goes out through one scheduler per link: joystick updates
+  // coalesce, stop and brake preempt. It is ready before firmware is
+  // published, so consumers reacting to the handshake can send immediately.
+  const applyFirmware = useCallback(
+    (transport: Transport | null, info: FirmwareInfo | null) => {
+      schedulerRef.current?.stop();
+      schedulerRef.current = null;
+      senderRef.current?.dispose();
+      senderRef.current = null;
+      if (transport && info) {
+        const sender = new ReliableSender(
+          transport,
+          createCommandEncoder(selectCommandFormat(info))
+        );
+        const scheduler = new CommandScheduler((command) => {
+          const sent =
+            typeof command === "string"
+              ? transport.write(command)
+              : sender.send(command);
+          sent.catch(console.error);
+        });
+        scheduler.start();
+        senderRef.current = sender;
+        schedulerRef.current = scheduler;
+      }
+      setFirmware(info);
+    },
+    []
+  );
+
+  const cancelReconnect = useCallback(() => {
+    reconnectTokenRef.current++;
+    reconnectingRef.current = false;
+    setReconnectAttempt(0);
+  }, []);
+
+  // Retry the last device with exponential backoff until it answers
+  const reconnect = useCallback(
+    async (device: BluetoothDevice) => {
+      const token = ++reconnectTokenRef.current;
+      reconnectingRef.current = true;
+
+      for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+        setReconnectAttempt(attempt);
+        const delay = Math.min(
+          RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+          RECONNECT_MAX_DELAY_MS
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (token !== reconnectTokenRef.current) return;
+
+        console.log(
+          `Reconnecting to ${device.name} (${attempt}/${MAX_RECONNECT_ATTEMPTS})`
+        );
+        const success = await getTransport(device.transport)
+          .connect(device.id)
+          .catch(() => false);
+        if (token !== reconnectTokenRef.current) return;
+
+        if (success) {
+          const transport = getTransport(device.transport);
+          const info = await handshake(transport, device);
+          if (token !== reconnectTokenRef.current) return;
+
+          applyFirmware(transport, info);
+          reconnectingRef.current = false;
+          setReconnectAttempt(0);
+          setConnectedDevice({
+            ...device,
+            isConnected: true,
+            lastConnected: new Date(),
+          });
+          reconnectListenersRef.current.forEach((listener) =>
+            listener(device)
+          );
+          return;
+        }
+      }
+
+      console.warn(
+        `Giving up on ${device.name} after ${MAX_RECONNECT_ATTEMPTS} attempts`
+      );
+      setError(
+        getTransport(device.transport).getLastError() ??
+          new ConnectionError("timeout", `${device.name} did not come back`)
+      );
+      reconnectingRef.current = false;
+      setReconnectAttempt(0);
+    },
+    [getTransport, applyFirmware, handshake]
+  );
+
+  const onReconnected = useCallback(
+    (listener: (device: BluetoothDevice) => void) => {
+      reconnectListenersRef.current.add(listener);
+      return () => {
+        reconnectListenersRef.current.delete(listener);
+      };
+    },
+    []
+  );
+
+  // Mirror the active transport's state into React state
+  useEffect(() => {
+    const transport = getTransport(activeKind);
+    transportRef.current = transport;
+    setLinkState(transport.getState());
+
+    const unsubscribeState = transport.onStateChange((newState) => {
+      setLinkState(newState);
+      if (newState === "disconnected") {
+        setConnectedDevice(null);
+        applyFirmware(transport, null);
+        setTelemetry(null);
+
+        // Unexpected drop: try to get the same robot back
+        const device = lastDeviceRef.current;
+        if (device && !userDisconnectRef.current && !reconnectingRef.current) {
+          reconnect(device);
+        }
+      }
+    });
+
+    // Parse telemetry notifications; other traffic (ACKs) is ignored here
+    const unsubscribeData = transport.subscribe((data) => {
+      const parsed = parseTelemetry(data);
+      if (parsed) {
+        setTelemetry(parsed);
+        setTelemetryStale(false);
       }
-    } catch (error) {
-      setState("error");
-      console.error("Connection error:", error);
-      return false;
+    });
+
+    return () => {
+      unsubscribeState();
+      unsubscribeData();
+    };
+  }, [activeKind, getTransport, reconnect, applyFirmware]);
+
+  // Heartbeat while connected; a silent link is flagged until replies resume
+  useEffect(() => {
+    if (
+      linkState !== "connected" ||
+      !firmware?.features.includes("heartbeat")
+    ) {
+      return;
     }
+
+    const monitor = new LinkMonitor(getTransport(activeKind), {
+      onLinkLost: () => setLinkLost(true),
+      onLinkRestored: () => setLinkLost(false),
+    });
+    linkMonitorRef.current = monitor;
+    monitor.start();
+    return () => {
+      monitor.stop();
+      linkMonitorRef.current = null;
+      setLinkLost(false);
+    };
+  }, [linkState, activeKind, firmware, getTransport]);
+
+  // Measure round trips (firmware with ping) and signal once the handshake
+  // is done
+  useEffect(() => {
+    if (linkState !== "connected" || !firmware) return;
+
+    const monitor = new LinkQualityMonitor(getTransport(activeKind), {
+      ping: firmware.features.includes("ping"),
+      onUpdate: setLinkQuality,
+    });
+    monitor.start();
+    return () => {
+      monitor.stop();
+      setLinkQuality(null);
+    };
+  }, [linkState, activeKind, firmware, getTransport]);
+
+  // Driving gets the fastest link the quality allows; idle and parked save
+  // power
+  const linkTuning = useMemo(
+    () => selectLinkTuning(activity, linkQuality),
+    [activity, linkQuality]
+  );
+
+  const setDriving = useCallback((driving: boolean) => {
+    if (parkTimeoutRef.current) {
+      clearTimeout(parkTimeoutRef.current);
+      parkTimeoutRef.current = null;
+    }
+    if (driving) {
+      setActivity("driving");
+      return;
+    }
+    setActivity("idle");
+    parkTimeoutRef.current = setTimeout(() => {
+      parkTimeoutRef.current = null;
+      setActivity("parked");
+    }, PARK_AFTER_MS);
+  }, []);
+
+  // A fresh link starts idle and parks unless driving starts
+  useEffect(() => {
+    if (linkState === "connected") {
+      setDriving(false);
+    }
+  }, [linkState, setDriving]);
+
+  useEffect(() => {
+    linkMonitorRef.current?.setHeartbeatInterval(
+      linkTuning.heartbeatIntervalMs
+    );
+  }, [linkTuning.heartbeatIntervalMs, linkState, activeKind, firmware]);
+
+  // Pace the scheduler like the drive stream; a new link gets a new one
+  useEffect(() => {
+    schedulerRef.current?.setRate(1000 / linkTuning.sendIntervalMs);
+  }, [linkTuning.sendIntervalMs, firmware]);
+
+  useEffect(() => {
+    if (linkState !== "connected") return;
+    getTransport(activeKind)
+      .setConnectionPriority(linkTuning.priority)
+      .catch(console.warn);
+  }, [linkTuning.priority, linkState, activeKind, getTransport]);
+
+  // Flag telemetry as stale when notifications stop arriving
+  useEffect(() => {
+    if (!telemetry) {
+      setTelemetryStale(true);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setTelemetryStale(isTelemetryStale(telemetry));
+    }, STALE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [telemetry]);
+
+  // Release native resources on unmount
+  useEffect(() => {
+    const transports = transportsRef.current;
+    return () => {
+      if (parkTimeoutRef.current) {
+        clearTimeout(parkTimeoutRef.current);
+      }
+      transports.forEach((transport) => {
+        transport.destroy().catch(console.error);
+      });
+      transports.clear();
+    };
+  }, []);
+
+  const checkReadiness = useCallback(
+    async (request: boolean = true) => {
+      const result = await ReadinessService.check(
+        getTransport(transportKind),
+        request
+      );
+      if (result.ready) {
+        setError(null);
+      }
+      return result;
+    },
+    [transportKind, getTransport]
+  );
+
+  const stopScan = useCallback(() => {
+    transportsRef.current.forEach((transport) => transport.stopScan());
+    setIsScanning(false);
   }, []);
 
+  const startScan = useCallback(async () => {
+    const transport = getTransport(transportKind);
+
+    const addDevice = (found: BluetoothDevice) => {
+      lastSeenRef.current.set(found.id, Date.now());
+      const device = {
+        ...found,
+        lastConnected: connectionHistoryRef.current.get(found.id) ?? null,
+      };
+      setDevices((prev) => {
+        const index = prev.findIndex((d) => d.id === device.id);
+        if (index === -1) return [...prev, device];
+        const next = [...prev];
+        next[index] = device;
+        return next;
+      });
+    };
+
+    setDevices([]);
+    lastSeenRef.current.clear();
+    setError(null);
+    setIsScanning(true);
+    try {
+      // The virtual robot is offered alongside real hardware on every link
+      await getTransport("simulated").scan(addDevice);
+      await transport.scan(addDevice);
+    } catch (scanError) {
+      console.error("Scan error:", scanError);
+      setError(toConnectionError(scanError));
+    } finally {
+      setIsScanning(false);
+    }
+  }, [transportKind, getTransport]);
+
+  // Age out BLE devices that stopped advertising during the scan (Classic
+  // and the simulator report each device only once)
+  useEffect(() => {
+    if (!isScanning) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setDevices((prev) => {
+        const next = prev.filter(
+          (device) =>
+            device.transport !== "ble" ||
+            now - (lastSeenRef.current.get(device.id) ?? 0) <= DEVICE_TIMEOUT_MS
+        );
+        return next.length === prev.length ? prev : next;
+      });
+    }, DEVICE_PRUNE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isScanning]);
+
+  const connect = useCallback(
+    async (device: BluetoothDevice) => {
+      // Devices remember which link found them (e.g. the virtual robot)
+      const transport = getTransport(device.transport);
+      stopScan();
+      cancelReconnect();
+      setError(null);
+      userDisconnectRef.current = true;
+      if (transportRef.current !== transport) {
+        await transportRef.current?.disconnect();
+        transportRef.current = transport;
+        setActiveKind(device.transport);
+      }
+
+      try {
+        const success = await transport.connect(device.id);
+        if (success) {
+          applyFirmware(transport, await handshake(transport, device));
+          lastDeviceRef.current = device;
+          userDisconnectRef.current = false;
+          const connectedAt = new Date();
+          connectionHistoryRef.current.set(device.id, connectedAt);
+          setConnectedDevice({
+            ...device,
+            isConnected: true,
+            lastConnected: connectedAt,
+          });
+        } else {
+          setError(
+            transport.getLastError() ??
+              new ConnectionError("unknown", "Connection failed")
+          );
+        }
+        return success;
+      } catch (connectError) {
+        console.error("Connection error:", connectError);
+        setError(toConnectionError(connectError));
+        return false;
+      }
+    },
+    [getTransport, stopScan, cancelReconnect, applyFirmware, handshake]
+  );
+
   const disconnect = useCallback(async () => {
+    cancelReconnect();
+    userDisconnectRef.current = true;
+    const transport = transportRef.current;
     try {
-      await bluetoothService.disconnect();
-      setState("disconnected");
+      await transport?.disconnect();
       setConnectedDevice(null);
+      applyFirmware(transport, null);
       setTelemetry(null);
-    } catch (error) {
-      setState("error");
-      console.error("Disconnection error:", error);
+    } catch (disconnectError) {
+      console.error("Disconnection error:", disconnectError);
+      setError(toConnectionError(disconnectError));
     }
+  }, [cancelReconnect, applyFirmware]);
+
+  const createDiagnostics = useCallback(
+    async (onUpdate: (steps: DiagnosticStep[]) => void) => {
+      stopScan();
+      await disconnect();
+      return new ConnectionDiagnostics(getTransport(transportKind), onUpdate);
+    },
+    [transportKind, getTransport, stopScan, disconnect]
+  );
+
+  const getConnectedBleTransport = useCallback(() => {
+    const transport = transportRef.current;
+    return transport instanceof BleTransport &&
+      transport.getState() === "connected"
+      ? transport
+      : null;
   }, []);
 
-  const isConnected = useCallback(() => state === "connected", [state]);
+  // Switch link type, dropping any connection on the previous one
+  const setTransportKind = useCallback(
+    async (kind: TransportKind) => {
+      if (kind === transportKind) return;
+      stopScan();
+      await disconnect();
+      setDevices([]);
+      setTransportKindState(kind);
+      setActiveKind(kind);
+    },
+    [transportKind, stopScan, disconnect]
+  );
+
+  // Applies to the next BLE scan and connection
+  const setDeviceProfile = useCallback(
+    (profile: DeviceProfile | null) => {
+      const transport = getTransport("ble");
+      if (
+        transport instanceof BleTransport ||
+        transport instanceof WebBluetoothTransport
+      ) {
+        transport.setProfile(profile);
+      }
+      setDeviceProfileState(profile);
+      setDevices((prev) => prev.filter((device) => device.transport !== "ble"));
+    },
+    [getTransport]
+  );
+
+  const sendCommand = useCallback(async (command: string) => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) {
+      console.warn("No device connected");
+      return;
+    }
+    scheduler.enqueue(command);
+  }, []);
+
+  const sendMotorCommand = useCallback(async (command: MotorCommand) => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) {
+      console.warn("No device connected");
+      return;
+    }
+    scheduler.enqueue(command);
+  }, []);
+
+  const getQueueStats = useCallback(
+    () => schedulerRef.current?.getStats() ?? null,
+    []
+  );
+
+  const isConnected = useCallback(
+    () => linkState === "connected",
+    [linkState]
+  );
+
+  const state = resolveState(linkState, {
+    firmware,
+    linkLost,
+    reconnecting: reconnectAttempt > 0,
+    scanning: isScanning,
+    error,
+  });
 
   return (
     <BluetoothContext.Provider
       value={{
         state,
+        error,
         connectedDevice,
+        firmware,
         telemetry,
+        telemetryStale,
+        linkLost,
+        linkQuality,
+        linkTuning,
+        setDriving,
+        reconnectAttempt,
+        transportKind,
+        setTransportKind,
+        deviceProfile,
+        setDeviceProfile,
+        checkReadiness,
+        createDiagnostics,
+        getConnectedBleTransport,
+        devices,
+        isScanning,
+        startScan,
+        stopScan,
         connect,
         disconnect,
+        cancelReconnect,
+        onReconnected,
+        sendCommand,
+        sendMotorCommand,
+        getQueueStats,
         isConnected,
       }}
     >
@@ -0,0 +1,179 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import type { BluetoothDevice, FleetRobot, MotorCommand } from "../types";
+import { RobotLink } from "@services/robotLink";
+import { useBluetooth } from "./bluetoothContext";
+
+// Sent to every robot by the emergency stop, and to a robot handed over
+function stopCommand(): MotorCommand {
+  return {
+    type: "stop",
+    leftSpeed: 0,
+    rightSpeed: 0,
+    gear: "1",
+    clawOpen: false,
+    timestamp: Date.now(),
+  };
+}
+
+// Robots connected alongside the main link, and which one the joystick drives
+interface FleetContextType {
+  robots: FleetRobot[]; // Fleet robots in the order they were added
+  // Robot the joystick drives; null is the main link
+  drivenRobotId: string | null;
+  setDrivenRobot: (id: string | null) => void;
+
+  addRobot: (device: BluetoothDevice) => Promise<boolean>;
+  reconnectRobot: (id: string) => Promise<boolean>;
+  removeRobot: (id: string) => Promise<void>;
+
+  sendCommandTo: (id: string, command: string) => Promise<void>;
+  sendMotorCommandTo: (id: string, command: MotorCommand) => Promise<void>;
+  // Emergency stop: every fleet robot and the main link at once
+  stopAll: () => Promise<void>;
+}
+
+const FleetContext = createContext<FleetContextType | undefined>(undefined);
+
+export function FleetProvider({ children }: { children: ReactNode }) {
+  const { connectedDevice, sendMotorCommand, linkTuning } = useBluetooth();
+  const [robots, setRobots] = useState<FleetRobot[]>([]);
+  const [drivenRobotId, setDrivenRobotId] = useState<string | null>(null);
+
+  // One link per robot, keyed by device id
+  const linksRef = useRef(new Map<string, RobotLink>());
+
+  // Fleet robots are driven at the main link's tuned rate
+  const sendRateHz = 1000 / linkTuning.sendIntervalMs;
+  const sendRateRef = useRef(sendRateHz);
+  useEffect(() => {
+    sendRateRef.current = sendRateHz;
+    linksRef.current.forEach((link) => link.setSendRate(sendRateHz));
+  }, [sendRateHz]);
+
+  // Replace a robot's entry with the link's latest snapshot
+  const handleChange = useCallback((robot: FleetRobot) => {
+    setRobots((prev) =>
+      prev.map((entry) =>
+        entry.device.id === robot.device.id ? robot : entry
+      )
+    );
+  }, []);
+
+  const addRobot = useCallback(
+    async (device: BluetoothDevice) => {
+      if (linksRef.current.has(device.id)) return false;
+
+      const link = new RobotLink(device, handleChange);
+      link.setSendRate(sendRateRef.current);
+      linksRef.current.set(device.id, link);
+      setRobots((prev) => [...prev, link.getStatus()]);
+      return link.connect();
+    },
+    [handleChange]
+  );
+
+  const reconnectRobot = useCallback(async (id: string) => {
+    const link = linksRef.current.get(id);
+    return link ? link.connect() : false;
+  }, []);
+
+  const removeRobot = useCallback(async (id: string) => {
+    const link = linksRef.current.get(id);
+    if (!link) return;
+    linksRef.current.delete(id);
+    setRobots((prev) => prev.filter((robot) => robot.device.id !== id));
+    setDrivenRobotId((current) => (current === id ? null : current));
+    await link.sendMotorCommand(stopCommand()).catch(console.error);
+    await link.disconnect();
+  }, []);
+
+  const sendCommandTo = useCallback(async (id: string, command: string) => {
+    await linksRef.current.get(id)?.sendCommand(command);
+  }, []);
+
+  const sendMotorCommandTo = useCallback(
+    async (id: string, command: MotorCommand) => {
+      await linksRef.current.get(id)?.sendMotorCommand(command);
+    },
+    []
+  );
+
+  // Stop the robot being let go of, so it cannot keep a stale drive command
+  const setDrivenRobot = useCallback(
+    (id: string | null) => {
+      if (id === drivenRobotId) return;
+      const previous =
+        drivenRobotId === null
+          ? connectedDevice && sendMotorCommand(stopCommand())
+          : linksRef.current.get(drivenRobotId)?.sendMotorCommand(stopCommand());
+      previous?.catch(console.error);
+      setDrivenRobotId(id);
+    },
+    [drivenRobotId, connectedDevice, sendMotorCommand]
+  );
+
+  const stopAll = useCallback(async () => {
+    const stops = [...linksRef.current.values()].map((link) =>
+      link.sendMotorCommand(stopCommand())
+    );
+    if (connectedDevice) {
+      stops.push(sendMotorCommand(stopCommand()));
+    }
+    const results = await Promise.allSettled(stops);
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        console.error("Emergency stop failed:", result.reason);
+      }
+    });
+  }, [connectedDevice, sendMotorCommand]);
+
+  // A robot now on the main link cannot also be a fleet robot
+  useEffect(() => {
+    if (connectedDevice && linksRef.current.has(connectedDevice.id)) {
+      removeRobot(connectedDevice.id).catch(console.error);
+    }
+  }, [connectedDevice, removeRobot]);
+
+  // Release every fleet connection on unmount
+  useEffect(() => {
+    const links = linksRef.current;
+    return () => {
+      links.forEach((link) => link.disconnect().catch(console.error));
+      links.clear();
+    };
+  }, []);
+
+  return (
+    <FleetContext.Provider
+      value={{
+        robots,
+        drivenRobotId,
+        setDrivenRobot,
+        addRobot,
+        reconnectRobot,
+        removeRobot,
+        sendCommandTo,
+        sendMotorCommandTo,
+        stopAll,
+      }}
+    >
+      {children}
+    </FleetContext.Provider>
+  );
+}
+
+export function useFleet() {
+  const context = useContext(FleetContext);
+  if (context === undefined) {
+    throw new Error("useFleet must be used within a FleetProvider");
+  }
+  return context;
+}
@@ -0,0 +1,191 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import type { BluetoothDevice, KnownRobot } from "../types";
+import { RobotStorage } from "@services/robotStorage";
+import { useBluetooth } from "./bluetoothContext";
+
+// Accent colors offered for robots, assigned in order to new ones
+export const ROBOT_COLORS = [
+  "#FF9E42",
+  "#10b981",
+  "#3b82f6",
+  "#ef4444",
+  "#a855f7",
+  "#eab308",
+];
+
+// Robots connected before, with nicknames, colors and user order
+interface KnownRobotsContextType {
+  robots: KnownRobot[];
+  lastRobot: KnownRobot | null; // Most recently connected
+  isLoaded: boolean;
+
+  getRobot: (id: string) => KnownRobot | undefined;
+  connectToRobot: (robot: KnownRobot) => Promise<boolean>;
+  renameRobot: (id: string, alias: string) => void;
+  setRobotColor: (id: string, color: string) => void;
+  forgetRobot: (id: string) => void;
+  moveRobot: (id: string, offset: number) => void;
+}
+
+const KnownRobotsContext = createContext<KnownRobotsContextType | undefined>(
+  undefined
+);
+
+// Alias if set, otherwise the advertised name
+export function robotDisplayName(robot: KnownRobot): string {
+  return robot.alias || robot.name;
+}
+
+// Rebuild a connectable device from a remembered robot (no scan needed)
+function toDevice(robot: KnownRobot): BluetoothDevice {
+  return {
+    id: robot.id,
+    name: robot.name,
+    address: robot.id,
+    isConnected: false,
+    lastConnected: new Date(robot.lastConnected),
+    signalStrength: -100,
+    transport: robot.transport,
+    profileId: robot.profileId,
+  };
+}
+
+export function KnownRobotsProvider({ children }: { children: ReactNode }) {
+  const { connectedDevice, connect } = useBluetooth();
+  const [robots, setRobots] = useState<KnownRobot[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load once on launch
+  useEffect(() => {
+    RobotStorage.load().then((stored) => {
+      setRobots(stored);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  // Persist every change after the initial load
+  useEffect(() => {
+    if (isLoaded) {
+      RobotStorage.save(robots);
+    }
+  }, [robots, isLoaded]);
+
+  // Remember (or refresh) every robot we connect to
+  useEffect(() => {
+    if (!connectedDevice || !isLoaded) return;
+
+    setRobots((prev) => {
+      const existing = prev.find((robot) => robot.id === connectedDevice.id);
+      const nextColor = ROBOT_COLORS[prev.length % ROBOT_COLORS.length];
+      const updated: KnownRobot = {
+        id: connectedDevice.id,
+        name: connectedDevice.name,
+        alias: existing?.alias ?? null,
+        color: existing?.color ?? nextColor,
+        transport: connectedDevice.transport,
+        profileId: connectedDevice.profileId,
+        lastConnected: Date.now(),
+      };
+      return existing
+        ? prev.map((robot) => (robot.id === updated.id ? updated : robot))
+        : [...prev, updated];
+    });
+  }, [connectedDevice, isLoaded]);
+
+  const lastRobot = useMemo(
+    () =>
+      robots.reduce<KnownRobot | null>(
+        (latest, robot) =>
+          !latest || robot.lastConnected > latest.lastConnected
+            ? robot
+            : latest,
+        null
+      ),
+    [robots]
+  );
+
+  const updateRobot = useCallback(
+    (id: string, changes: Partial<KnownRobot>) => {
+      setRobots((prev) =>
+        prev.map((robot) => (robot.id === id ? { ...robot, ...changes } : robot))
+      );
+    },
+    []
+  );
+
+  const getRobot = useCallback(
+    (id: string) => robots.find((robot) => robot.id === id),
+    [robots]
+  );
+
+  const connectToRobot = useCallback(
+    (robot: KnownRobot) => connect(toDevice(robot)),
+    [connect]
+  );
+
+  const renameRobot = useCallback(
+    (id: string, alias: string) => {
+      updateRobot(id, { alias: alias.trim() || null });
+    },
+    [updateRobot]
+  );
+
+  const setRobotColor = useCallback(
+    (id: string, color: string) => {
+      updateRobot(id, { color });
+    },
+    [updateRobot]
+  );
+
+  const forgetRobot = useCallback((id: string) => {
+    setRobots((prev) => prev.filter((robot) => robot.id !== id));
+  }, []);
+
+  // Move a robot up (-1) or down (+1) in the list
+  const moveRobot = useCallback((id: string, offset: number) => {
+    setRobots((prev) => {
+      const from = prev.findIndex((robot) => robot.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+
+      const next = [...prev];
+      const [robot] = next.splice(from, 1);
+      next.splice(to, 0, robot);
+      return next;
+    });
+  }, []);
+
+  return (
+    <KnownRobotsContext.Provider
+      value={{
+        robots,
+        lastRobot,
+        isLoaded,
+        getRobot,
+        connectToRobot,
+        renameRobot,
+        setRobotColor,
+        forgetRobot,
+        moveRobot,
+      }}
+    >
+      {children}
+    </KnownRobotsContext.Provider>
+  );
+}
+
+export function useKnownRobots() {
+  const context = useContext(KnownRobotsContext);
+  if (context === undefined) {
+    throw new Error("useKnownRobots must be used within a KnownRobotsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,77 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import type { RelayStatus } from "../types";
+import { RemoteRelay } from "@services/relay";
+import { useBluetooth } from "./bluetoothContext";
+
+// Browser remote control through the phone, forwarded to the main link
+interface RemoteRelayContextType {
+  status: RelayStatus;
+  startRelay: () => Promise<void>;
+  stopRelay: () => void;
+  // Phone control: pause the browser, or disconnect it for good
+  takeOver: () => void;
+  handBack: () => void;
+  revoke: () => void;
+}
+
+const RemoteRelayContext = createContext<RemoteRelayContextType | undefined>(
+  undefined
+);
+
+export function RemoteRelayProvider({ children }: { children: ReactNode }) {
+  const { connectedDevice, sendMotorCommand } = useBluetooth();
+
+  // The relay outlives renders; it reads the current link through refs
+  const sendRef = useRef(sendMotorCommand);
+  const deviceRef = useRef(connectedDevice);
+  useEffect(() => {
+    sendRef.current = sendMotorCommand;
+    deviceRef.current = connectedDevice;
+  }, [sendMotorCommand, connectedDevice]);
+
+  const [relay] = useState(
+    () =>
+      new RemoteRelay({
+        forward: (command) => {
+          if (!deviceRef.current) return;
+          sendRef.current(command).catch(console.error);
+        },
+        getRobotName: () => deviceRef.current?.name ?? null,
+        onStatus: (next) => setStatus(next),
+      })
+  );
+  const [status, setStatus] = useState<RelayStatus>(() => relay.getStatus());
+
+  const startRelay = useCallback(() => relay.start(), [relay]);
+  const stopRelay = useCallback(() => relay.stop(), [relay]);
+  const takeOver = useCallback(() => relay.takeOver(), [relay]);
+  const handBack = useCallback(() => relay.handBack(), [relay]);
+  const revoke = useCallback(() => relay.revoke(), [relay]);
+
+  // Close the server on unmount
+  useEffect(() => () => relay.stop(), [relay]);
+
+  return (
+    <RemoteRelayContext.Provider
+      value={{ status, startRelay, stopRelay, takeOver, handBack, revoke }}
+    >
+      {children}
+    </RemoteRelayContext.Provider>
+  );
+}
+
+export function useRemoteRelay() {
+  const context = useContext(RemoteRelayContext);
+  if (context === undefined) {
+    throw new Error("useRemoteRelay must be used within a RemoteRelayProvider");
+  }
+  return context;
+}
@@ -5,7 +5,7 @@ import React, {
   useContext,
   useState,
 } from "react";
-import type { JoystickData, GearType } from "../types";
+import type { JoystickData, GearType, DriveMode } from "../types";
 
 // Global vehicle control state (joystick, gear, claw, speed)
 interface VehicleControlContextType {
@@ -21,6 +21,9 @@ interface VehicleControlContextType {
   speedMultiplier: number;
   setSpeedMultiplier: (multiplier: number) => void;
 
+  driveMode: DriveMode;
+  setDriveMode: (mode: DriveMode) => void;
+
   // Reset all controls to default state
   resetControls: () => void;
 }
@@ -34,6 +37,7 @@ export function VehicleControlProvider({ children }: { children: ReactNode }) {
   const [currentGear, setCurrentGear] = useState<GearType>("1");
   const [clawOpen, setClawOpen] = useState(false);
   const [speedMultiplier, setSpeedMultiplier] = useState(1);
+  const [driveMode, setDriveMode] = useState<DriveMode>("cardinal");
 
   // Update current gear selection
   const setGear = useCallback((gear: GearType) => {
@@ -64,6 +68,8 @@ export function VehicleControlProvider({ children }: { children: ReactNode }) {
         toggleClaw,
         speedMultiplier,
         setSpeedMultiplier,
+        driveMode,
+        setDriveMode,
         resetControls,
       }}
     >
@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useRef } from "react";
+import { JoystickMath } from "@utils/joystickMath";
+import type { GearType, JoystickData } from "../types";
+
+const CARDINAL_COMMANDS = {
+  NORTH: "F",
+  SOUTH: "B",
+  EAST: "R",
+  WEST: "L",
+  CENTER: "S",
+} as const;
+
+interface UseCardinalDriveReturn {
+  update: (data: JoystickData) => void;
+  // Forget the last direction so the next move sends it (and speed) again
+  reset: () => void;
+}
+
+// 4-way driving for character-protocol firmware: each direction change sends
+// the direction, the gear's speed cap and its speed increments once
+export const useCardinalDrive = (
+  sendCommand: (command: string) => Promise<void>,
+  gear: GearType
+): UseCardinalDriveReturn => {
+  const lastCommandRef = useRef<string | null>(null);
+
+  const send = useCallback(
+    (command: string) => {
+      sendCommand(command).catch(console.error);
+    },
+    [sendCommand]
+  );
+
+  const update = useCallback(
+    (data: JoystickData) => {
+      const command =
+        CARDINAL_COMMANDS[JoystickMath.detectCardinalDirection(data, 45)];
+      if (command === lastCommandRef.current) return;
+      lastCommandRef.current = command;
+      send(command);
+      if (command === "S") return;
+
+      // Queued right behind the direction; the link's scheduler sends them
+      // in order, and a stop drops any still waiting
+      send(gear === "2" ? "MAX:180" : "MAX:60");
+
+      // Turning uses less speed for smoother control and less motor noise:
+      // gear 2 turns get 1 increment, gear 1 turns use the base speed only;
+      // forward/backward gets 2 increments in either gear
+      const isTurning = command === "L" || command === "R";
+      const increments = isTurning ? (gear === "2" ? 1 : 0) : 2;
+      for (let i = 0; i < increments; i++) {
+        send("+");
+      }
+    },
+    [send, gear]
+  );
+
+  const reset = useCallback(() => {
+    lastCommandRef.current = null;
+  }, []);
+
+  return useMemo(() => ({ update, reset }), [update, reset]);
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { JoystickMath } from "@utils/joystickMath";
+import type { JoystickData } from "../types";
+
+// Stream timing: send changes at 20Hz by default (the caller may slow it
+// down for a weak link), repeat unchanged values well inside the firmware's
+// 600 ms BLE timeout
+const SEND_INTERVAL_MS = 50;
+const KEEPALIVE_MS = 250;
+
+interface UseProportionalDriveReturn {
+  update: (data: JoystickData) => void;
+  stop: () => void;
+}
+
+interface WheelSpeeds {
+  left: number;
+  right: number;
+}
+
+// Continuously stream signed left/right wheel speeds while the joystick is held
+// (the caller encodes them for the connected firmware)
+export const useProportionalDrive = (
+  sendDrive: (left: number, right: number) => Promise<void>,
+  maxSpeed: number,
+  intervalMs: number = SEND_INTERVAL_MS
+): UseProportionalDriveReturn => {
+  const speedsRef = useRef<WheelSpeeds | null>(null);
+  const lastSentRef = useRef<WheelSpeeds | null>(null);
+  const lastSentAtRef = useRef(0);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Send the latest speeds if they changed or the keep-alive is due
+  const flush = useCallback(() => {
+    const speeds = speedsRef.current;
+    if (!speeds) return;
+
+    const now = Date.now();
+    const last = lastSentRef.current;
+    if (
+      last?.left === speeds.left &&
+      last?.right === speeds.right &&
+      now - lastSentAtRef.current < KEEPALIVE_MS
+    ) {
+      return;
+    }
+
+    lastSentRef.current = speeds;
+    lastSentAtRef.current = now;
+    sendDrive(speeds.left, speeds.right).catch(console.error);
+  }, [sendDrive]);
+
+  // Convert joystick position to wheel speeds (arcade mix)
+  const update = useCallback(
+    (data: JoystickData) => {
+      const { left, right } = JoystickMath.calculateMotorSpeeds(
+        data,
+        "arcade",
+        maxSpeed
+      );
+      speedsRef.current = { left: Math.round(left), right: Math.round(right) };
+
+      if (!intervalRef.current) {
+        flush();
+        intervalRef.current = setInterval(flush, intervalMs);
+      }
+    },
+    [maxSpeed, flush, intervalMs]
+  );
+
+  // Stop streaming (the caller sends the actual stop command)
+  const stop = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+    speedsRef.current = null;
+    lastSentRef.current = null;
+  }, []);
+
+  // Pick up a new send rate while streaming
+  useEffect(() => {
+    if (!intervalRef.current) return;
+    clearInterval(intervalRef.current);
+    intervalRef.current = setInterval(flush, intervalMs);
+  }, [intervalMs, flush]);
+
+  useEffect(() => stop, [stop]);
+
+  return useMemo(() => ({ update, stop }), [update, stop]);
+};
@@ -0,0 +1,81 @@
+import { useCallback, useMemo } from "react";
+import { useBluetooth } from "@contexts/bluetoothContext";
+import { useFleet } from "@contexts/fleetContext";
+import type {
+  BluetoothDevice,
+  FirmwareInfo,
+  MotorCommand,
+  VehicleTelemetry,
+} from "../types";
+
+export interface RobotTarget {
+  device: BluetoothDevice | null;
+  firmware: FirmwareInfo | null;
+  telemetry: VehicleTelemetry | null;
+  telemetryStale: boolean;
+  // Handshake done and the robot is answering
+  isLinkUp: boolean;
+  sendCommand: (command: string) => Promise<void>;
+  sendMotorCommand: (command: MotorCommand) => Promise<void>;
+}
+
+// One robot to drive: the main link (null) or a fleet robot by device id
+export const useRobotTarget = (robotId: string | null): RobotTarget => {
+  const main = useBluetooth();
+  const { robots, sendCommandTo, sendMotorCommandTo } = useFleet();
+  const robot =
+    robotId !== null
+      ? (robots.find((entry) => entry.device.id === robotId) ?? null)
+      : null;
+
+  const sendFleetCommand = useCallback(
+    (command: string) =>
+      robotId !== null ? sendCommandTo(robotId, command) : Promise.resolve(),
+    [robotId, sendCommandTo]
+  );
+  const sendFleetMotorCommand = useCallback(
+    (command: MotorCommand) =>
+      robotId !== null
+        ? sendMotorCommandTo(robotId, command)
+        : Promise.resolve(),
+    [robotId, sendMotorCommandTo]
+  );
+
+  return useMemo(() => {
+    if (robotId === null) {
+      return {
+        device: main.connectedDevice,
+        firmware: main.firmware,
+        telemetry: main.telemetry,
+        telemetryStale: main.telemetryStale,
+        isLinkUp: main.state === "connected" && main.firmware !== null,
+        sendCommand: main.sendCommand,
+        sendMotorCommand: main.sendMotorCommand,
+      };
+    }
+    return {
+      device: robot?.device ?? null,
+      firmware: robot?.firmware ?? null,
+      telemetry: robot?.telemetry ?? null,
+      telemetryStale: robot?.telemetryStale ?? true,
+      isLinkUp:
+        robot?.state === "connected" &&
+        robot.firmware !== null &&
+        !robot.linkLost,
+      sendCommand: sendFleetCommand,
+      sendMotorCommand: sendFleetMotorCommand,
+    };
+  }, [
+    robotId,
+    robot,
+    main.connectedDevice,
+    main.firmware,
+    main.telemetry,
+    main.telemetryStale,
+    main.state,
+    main.sendCommand,
+    main.sendMotorCommand,
+    sendFleetCommand,
+    sendFleetMotorCommand,
+  ]);
+};
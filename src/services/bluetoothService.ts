@@ -1,9 +1,16 @@
-import { BleManager, Device, Characteristic } from "react-native-ble-plx";
-import type { MotorCommand, GearType } from "../types";
-
-// ESP32 BLE Service and Characteristic UUIDs
-const SERVICE_UUID = "4fafc201-1fb5-459e-8fcc-c5c9c331914b";
-const CHARACTERISTIC_UUID = "beb5483e-36e1-4688-b7f5-ea07361b26a8";
+import type {
+  MotorCommand,
+  GearType,
+  BluetoothDevice,
+  Transport,
+  CommandEncoder,
+  CommandFormat,
+  SchedulerStats,
+} from "../types";
+import { BleTransport } from "./transports";
+import { getDeviceProfile } from "./deviceProfiles";
+import { createCommandEncoder, ReliableSender } from "./protocol";
+import { CommandScheduler, ScheduledCommand } from "./commandScheduler";
 
 /**
  * Bluetooth communication service for ESP32
@@ -11,16 +18,17 @@ const CHARACTERISTIC_UUID = "beb5483e-36e1-4688-b7f5-ea07361b26a8";
  */
 export class BluetoothService {
   private static instance: BluetoothService;
-  private bleManager: BleManager;
+  private transport: Transport | null = null;
+  private sender: ReliableSender | null = null;
   private isConnected = false;
-  private connectedDevice: Device | null = null;
-  private commandQueue: MotorCommand[] = [];
-  private sendInterval: ReturnType<typeof setInterval> | null = null;
-  private writeCharacteristic: Characteristic | null = null;
+  // Latest-wins: joystick updates coalesce, stop/brake preempt
+  private scheduler = new CommandScheduler((command) => {
+    this.processCommand(command);
+  });
+  // JSON by default so older firmware keeps working
+  private encoder: CommandEncoder = createCommandEncoder("json");
 
-  private constructor() {
-    this.bleManager = new BleManager();
-  }
+  private constructor() {}
 
   static getInstance(): BluetoothService {
     if (!BluetoothService.instance) {
@@ -30,70 +38,74 @@ export class BluetoothService {
   }
 
   /**
-   * Initialize BLE Manager
+   * Use a different link for JSON commands (defaults to BLE)
    */
-  async initialize(): Promise<void> {
-    try {
-      const state = await this.bleManager.state();
-      console.log("BLE State:", state);
-
-      if (state !== "PoweredOn") {
-        console.log("Bluetooth is not powered on. Waiting...");
-        await new Promise<void>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            subscription.remove();
-            reject(new Error("Bluetooth initialization timeout"));
-          }, 10000);
-
-          const subscription = this.bleManager.onStateChange((newState) => {
-            console.log("BLE State changed to:", newState);
-            if (newState === "PoweredOn") {
-              clearTimeout(timeout);
-              subscription.remove();
-              resolve();
-            }
-          }, true);
-        });
-      }
-    } catch (error) {
-      console.error("BLE initialization error:", error);
-      throw error;
+  setTransport(transport: Transport): void {
+    if (transport === this.transport) return;
+    this.stopCommandQueue();
+    this.isConnected = transport.getState() === "connected";
+    this.attachTransport(transport);
+    if (this.isConnected) {
+      this.startCommandQueue();
     }
   }
 
+  /**
+   * Select the wire format (binary frames for firmware that supports them)
+   */
+  setCommandFormat(format: CommandFormat): void {
+    if (format !== this.encoder.format) {
+      this.encoder = createCommandEncoder(format);
+      this.sender?.setEncoder(this.encoder);
+    }
+  }
+
+  getCommandFormat(): CommandFormat {
+    return this.encoder.format;
+  }
+
+  /**
+   * Set how many commands per second are sent (default 20 Hz)
+   */
+  setSendRate(hz: number): void {
+    this.scheduler.setRate(hz);
+  }
+
+  /**
+   * Queue depth and dropped-update counters
+   */
+  getQueueStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  // Lazily create the default BLE transport for the JSON firmware
+  private getTransport(): Transport {
+    if (!this.transport) {
+      this.attachTransport(
+        new BleTransport({ profile: getDeviceProfile("beetlebot-json") })
+      );
+    }
+    return this.transport!;
+  }
+
+  // Route commands (and ACKs) through the given transport
+  private attachTransport(transport: Transport): void {
+    this.sender?.dispose();
+    this.transport = transport;
+    this.sender = new ReliableSender(transport, this.encoder);
+  }
+
   /**
    * Scan for ESP32 devices
    */
   async scanForDevices(
-    onDeviceFound: (device: Device) => void,
+    onDeviceFound: (device: BluetoothDevice) => void,
     durationMs: number = 10000
   ): Promise<void> {
     try {
-      await this.initialize();
-
-      console.log("Starting BLE scan...");
-
-      this.bleManager.startDeviceScan(
-        null,
-        { allowDuplicates: false },
-        (error, device) => {
-          if (error) {
-            console.error("Scan error:", error);
-            return;
-          }
-
-          if (device && device.name && device.name.includes("BeetleBot")) {
-            console.log("Found device:", device.name, device.id);
-            onDeviceFound(device);
-          }
-        }
-      );
-
-      // Stop scanning after duration
-      setTimeout(() => {
-        this.bleManager.stopDeviceScan();
-        console.log("Scan stopped");
-      }, durationMs);
+      console.log("Starting scan...");
+      await this.getTransport().scan(onDeviceFound, durationMs);
+      console.log("Scan stopped");
     } catch (error) {
       console.error("Scan initialization error:", error);
       throw error;
@@ -104,46 +116,14 @@ export class BluetoothService {
    * Connect to ESP32 device
    */
   async connect(deviceId: string): Promise<boolean> {
-    try {
-      console.log("Connecting to device:", deviceId);
-
-      // Stop any ongoing scan
-      this.bleManager.stopDeviceScan();
-
-      // Connect to device
-      const device = await this.bleManager.connectToDevice(deviceId, {
-        timeout: 10000,
-      });
+    console.log("Connecting to device:", deviceId);
 
-      console.log("Connected to:", device.name);
-      this.connectedDevice = device;
-
-      // Discover services and characteristics
-      await device.discoverAllServicesAndCharacteristics();
-
-      // Get the write characteristic
-      const characteristics = await device.characteristicsForService(
-        SERVICE_UUID
-      );
-
-      this.writeCharacteristic =
-        characteristics.find((c) => c.uuid === CHARACTERISTIC_UUID) || null;
-
-      if (!this.writeCharacteristic) {
-        throw new Error("Write characteristic not found");
-      }
-
-      console.log("BLE characteristic ready");
-      this.isConnected = true;
+    const success = await this.getTransport().connect(deviceId);
+    this.isConnected = success;
+    if (success) {
       this.startCommandQueue();
-
-      return true;
-    } catch (error) {
-      console.error("Connection failed:", error);
-      this.isConnected = false;
-      this.connectedDevice = null;
-      return false;
     }
+    return success;
   }
 
   /**
@@ -153,13 +133,7 @@ export class BluetoothService {
     try {
       this.isConnected = false;
       this.stopCommandQueue();
-
-      if (this.connectedDevice) {
-        await this.connectedDevice.cancelConnection();
-        console.log("Disconnected from device");
-        this.connectedDevice = null;
-        this.writeCharacteristic = null;
-      }
+      await this.transport?.disconnect();
     } catch (error) {
       console.error("Disconnection failed:", error);
     }
@@ -187,7 +161,7 @@ export class BluetoothService {
       timestamp: Date.now(),
     };
 
-    this.commandQueue.push(command);
+    this.scheduler.enqueue(command);
   }
 
   /**
@@ -205,7 +179,7 @@ export class BluetoothService {
       timestamp: Date.now(),
     };
 
-    this.commandQueue.push(command);
+    this.scheduler.enqueue(command);
   }
 
   /**
@@ -223,7 +197,7 @@ export class BluetoothService {
       timestamp: Date.now(),
     };
 
-    this.commandQueue.push(command);
+    this.scheduler.enqueue(command);
   }
 
   /**
@@ -241,7 +215,7 @@ export class BluetoothService {
       timestamp: Date.now(),
     };
 
-    this.commandQueue.push(command);
+    this.scheduler.enqueue(command);
   }
 
   /**
@@ -259,7 +233,7 @@ export class BluetoothService {
       timestamp: Date.now(),
     };
 
-    this.commandQueue.push(command);
+    this.scheduler.enqueue(command);
   }
 
   /**
@@ -273,50 +247,31 @@ export class BluetoothService {
    * Process command queue
    */
   private startCommandQueue(): void {
-    this.sendInterval = setInterval(() => {
-      if (this.commandQueue.length > 0) {
-        const command = this.commandQueue.shift();
-        this.processCommand(command!);
-      }
-    }, 50); // Send commands at 20Hz
+    this.scheduler.start();
   }
 
   /**
    * Stop processing command queue
    */
   private stopCommandQueue(): void {
-    if (this.sendInterval) {
-      clearInterval(this.sendInterval);
-      this.sendInterval = null;
-    }
-    this.commandQueue = [];
+    this.scheduler.stop();
   }
 
   /**
    * Process individual command
    */
-  private async processCommand(command: MotorCommand): Promise<void> {
-    if (
-      !this.isConnected ||
-      !this.writeCharacteristic ||
-      !this.connectedDevice
-    ) {
+  private async processCommand(command: ScheduledCommand): Promise<void> {
+    if (!this.isConnected || !this.sender || !this.transport) {
       return;
     }
 
     try {
-      // Convert command to JSON string
-      const jsonCommand = JSON.stringify(command);
-
-      // Convert to base64 for BLE transmission
-      const base64Command = Buffer.from(jsonCommand).toString("base64");
-
-      // Write to characteristic
-      await this.connectedDevice.writeCharacteristicWithResponseForService(
-        SERVICE_UUID,
-        CHARACTERISTIC_UUID,
-        base64Command
-      );
+      if (typeof command === "string") {
+        await this.transport.write(command);
+        return;
+      }
+      // Critical commands are retried until acknowledged (binary format)
+      await this.sender.send(command);
 
       // Uncomment for debugging
       // console.log("Sent command:", command.type);
@@ -326,11 +281,14 @@ export class BluetoothService {
   }
 
   /**
-   * Stop BLE manager (cleanup)
+   * Release the transport (cleanup)
    */
   async destroy(): Promise<void> {
     await this.disconnect();
-    this.bleManager.destroy();
+    this.sender?.dispose();
+    this.sender = null;
+    await this.transport?.destroy();
+    this.transport = null;
   }
 }
 
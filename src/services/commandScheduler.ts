@@ -0,0 +1,122 @@
+import type { MotorCommand, SchedulerStats } from "../types";
+
+export const DEFAULT_SEND_RATE_HZ = 20;
+const MIN_SEND_RATE_HZ = 1;
+const MAX_SEND_RATE_HZ = 100;
+
+// Raw text is a character-protocol command with no MotorCommand form
+export type ScheduledCommand = MotorCommand | string;
+
+/**
+ * Latest-wins command scheduler
+ * Joystick updates are coalesced into a single slot so only the newest one
+ * is sent; gear/claw and raw text commands are queued in order; stop and
+ * brake preempt everything: the pending joystick update and queued text
+ * (directions, speed steps) are dropped and they are sent immediately
+ * instead of waiting for the next tick.
+ */
+export class CommandScheduler {
+  private latestJoystick: MotorCommand | null = null;
+  private queue: ScheduledCommand[] = [];
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private rateHz = DEFAULT_SEND_RATE_HZ;
+  private sentCount = 0;
+  private droppedUpdates = 0;
+
+  constructor(private send: (command: ScheduledCommand) => void) {}
+
+  start(): void {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.tick(), 1000 / this.rateHz);
+  }
+
+  // Stop ticking and discard anything still pending
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.latestJoystick = null;
+    this.queue = [];
+  }
+
+  /**
+   * Change how many commands per second are sent (clamped to 1-100 Hz)
+   */
+  setRate(hz: number): void {
+    this.rateHz = Math.max(MIN_SEND_RATE_HZ, Math.min(MAX_SEND_RATE_HZ, hz));
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      this.start();
+    }
+  }
+
+  getRate(): number {
+    return this.rateHz;
+  }
+
+  enqueue(command: ScheduledCommand): void {
+    if (typeof command === "string") {
+      this.queue.push(command);
+      return;
+    }
+
+    switch (command.type) {
+      case "joystick":
+        if (this.latestJoystick) {
+          this.droppedUpdates++;
+        }
+        this.latestJoystick = command;
+        break;
+
+      case "stop":
+      case "brake":
+        // Nothing queued before a stop should still move the robot
+        if (this.latestJoystick) {
+          this.droppedUpdates++;
+          this.latestJoystick = null;
+        }
+        this.queue = this.queue.filter((queued) => {
+          if (typeof queued !== "string") return true;
+          this.droppedUpdates++;
+          return false;
+        });
+        this.dispatch(command);
+        break;
+
+      default:
+        this.queue.push(command);
+        break;
+    }
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      queueDepth: this.queue.length + (this.latestJoystick ? 1 : 0),
+      droppedUpdates: this.droppedUpdates,
+      sentCount: this.sentCount,
+      rateHz: this.rateHz,
+    };
+  }
+
+  resetStats(): void {
+    this.sentCount = 0;
+    this.droppedUpdates = 0;
+  }
+
+  // One command per tick: queued commands first, then the newest joystick
+  private tick(): void {
+    const next = this.queue.shift() ?? this.latestJoystick;
+    if (!next) return;
+    if (next === this.latestJoystick) {
+      this.latestJoystick = null;
+    }
+    this.dispatch(next);
+  }
+
+  private dispatch(command: ScheduledCommand): void {
+    this.sentCount++;
+    this.send(command);
+  }
+}
@@ -0,0 +1,26 @@
+import type { ConnectionErrorReason } from "../types";
+
+/**
+ * Scan or connection failure with a reason the UI can act on
+ */
+export class ConnectionError extends Error {
+  constructor(
+    readonly reason: ConnectionErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "ConnectionError";
+  }
+}
+
+/**
+ * Wrap anything thrown by a native module; typed errors pass through
+ */
+export function toConnectionError(
+  error: unknown,
+  reason: ConnectionErrorReason = "unknown"
+): ConnectionError {
+  if (error instanceof ConnectionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ConnectionError(reason, message);
+}
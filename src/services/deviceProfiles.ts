@@ -0,0 +1,78 @@
+import type { DeviceProfile } from "../types";
+
+// Base for expanding 16/32-bit Bluetooth SIG UUIDs
+const BASE_UUID_SUFFIX = "-0000-1000-8000-00805f9b34fb";
+
+/**
+ * Known robot variants, in auto-detection priority order
+ */
+export const DEVICE_PROFILES: DeviceProfile[] = [
+  {
+    // BeetleBot_ESP32_wPS4Controller.ino: HM-10 style UUIDs
+    id: "beetlebot-ps4",
+    name: "BeetleBot PS4",
+    serviceUUID: "0000ffe0-0000-1000-8000-00805f9b34fb",
+    characteristicUUID: "0000ffe1-0000-1000-8000-00805f9b34fb",
+    telemetryCharacteristicUUID: "0000ffe2-0000-1000-8000-00805f9b34fb",
+    namePrefix: "BeetleBot",
+    protocol: "text",
+    mtu: 185,
+  },
+  {
+    // BeetleBot_ESP32.ino: JSON MotorCommands
+    id: "beetlebot-json",
+    name: "BeetleBot JSON",
+    serviceUUID: "4fafc201-1fb5-459e-8fcc-c5c9c331914b",
+    characteristicUUID: "beb5483e-36e1-4688-b7f5-ea07361b26a8",
+    namePrefix: "BeetleBot",
+    protocol: "json",
+    mtu: 185,
+  },
+  {
+    // Any HM-10 compatible module running the character protocol
+    id: "hm10",
+    name: "Generic HM-10",
+    serviceUUID: "0000ffe0-0000-1000-8000-00805f9b34fb",
+    characteristicUUID: "0000ffe1-0000-1000-8000-00805f9b34fb",
+    protocol: "text",
+  },
+];
+
+export const DEFAULT_PROFILE = DEVICE_PROFILES[0];
+
+export function getDeviceProfile(
+  id: string | null | undefined
+): DeviceProfile | null {
+  return DEVICE_PROFILES.find((profile) => profile.id === id) ?? null;
+}
+
+// Lower-case 128-bit form; iOS reports short UUIDs like "FFE0"
+export function normalizeUUID(uuid: string): string {
+  const lower = uuid.toLowerCase();
+  if (lower.length === 4) return `0000${lower}${BASE_UUID_SUFFIX}`;
+  if (lower.length === 8) return `${lower}${BASE_UUID_SUFFIX}`;
+  return lower;
+}
+
+// Whether a device's advertised name is allowed by the profile
+export function matchesName(profile: DeviceProfile, name: string): boolean {
+  return !profile.namePrefix || name.startsWith(profile.namePrefix);
+}
+
+/**
+ * Pick the first profile whose service is among the given UUIDs
+ * (advertised during a scan or discovered after connecting)
+ */
+export function detectProfile(
+  serviceUUIDs: string[] | null | undefined,
+  name?: string
+): DeviceProfile | null {
+  const uuids = (serviceUUIDs ?? []).map(normalizeUUID);
+  return (
+    DEVICE_PROFILES.find(
+      (profile) =>
+        uuids.includes(normalizeUUID(profile.serviceUUID)) &&
+        (name === undefined || matchesName(profile, name))
+    ) ?? null
+  );
+}
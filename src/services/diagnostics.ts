@@ -0,0 +1,304 @@
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import type {
+  BluetoothDevice,
+  DiagnosticStep,
+  DiagnosticStepId,
+  ReadinessResult,
+  Transport,
+} from "../types";
+import { ConnectionError } from "./connectionError";
+import { HANDSHAKE_QUERY, parseFirmwareInfo } from "./protocol";
+import { ReadinessService } from "./readinessService";
+import { BleTransport } from "./transports/bleTransport";
+
+const SCAN_TIMEOUT_MS = 10000;
+const ECHO_TIMEOUT_MS = 2000;
+
+const STEP_LABELS: Record<DiagnosticStepId, string> = {
+  permissions: "Permissions",
+  adapter: "Bluetooth adapter",
+  scan: "Robot advertising",
+  connect: "Connect",
+  services: "Service discovery",
+  characteristic: "Command characteristic",
+  write: "Test write",
+  echo: "Robot response",
+};
+
+const STATUS_MARKS: Record<DiagnosticStep["status"], string> = {
+  pending: " ",
+  running: "…",
+  passed: "✓",
+  failed: "✗",
+  skipped: "-",
+};
+
+// All steps, in run order, before anything has run
+export function createDiagnosticSteps(): DiagnosticStep[] {
+  return (Object.keys(STEP_LABELS) as DiagnosticStepId[]).map((id) => ({
+    id,
+    label: STEP_LABELS[id],
+    status: "pending",
+    detail: null,
+    durationMs: null,
+  }));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Step-by-step connection check for "it won't connect" reports
+ * Steps run in order and stop at the first failure; the rest are skipped
+ */
+export class ConnectionDiagnostics {
+  private steps = createDiagnosticSteps();
+  private cancelled = false;
+  private targetName: string | null = null;
+
+  constructor(
+    private transport: Transport,
+    private onUpdate: (steps: DiagnosticStep[]) => void
+  ) {}
+
+  /**
+   * Run every check against the given robot, or the first one found
+   */
+  async run(targetId?: string): Promise<DiagnosticStep[]> {
+    let readiness: ReadinessResult | null = null;
+    let device: BluetoothDevice | null = null;
+    let reachedDiscovery = false;
+    let connectError: ConnectionError | null = null;
+    let reply: Promise<string | null> | null = null;
+
+    try {
+      await this.step("permissions", async () => {
+        readiness = await ReadinessService.check(this.transport);
+        if (!readiness.permissionsGranted) {
+          throw new Error(
+            readiness.canAskAgain
+              ? "Permission denied"
+              : "Permission blocked; enable it in the app settings"
+          );
+        }
+        return "Granted";
+      });
+
+      await this.step("adapter", async () => {
+        if (!readiness?.locationEnabled) {
+          throw new Error("Location services are off");
+        }
+        if (readiness.adapter !== "poweredOn") {
+          throw new Error(`Adapter is ${readiness.adapter}`);
+        }
+        return Platform.OS === "android"
+          ? "Powered on, location on"
+          : "Powered on";
+      });
+
+      await this.step("scan", async () => {
+        device = await this.findDevice(targetId);
+        this.targetName = device.name;
+        return device.signalStrength > -100
+          ? `${device.name} at ${device.signalStrength} dBm`
+          : device.name;
+      });
+
+      await this.step("connect", async () => {
+        const found = device;
+        if (!found) throw new Error("No device to connect to");
+
+        const unsubscribe = this.transport.onStateChange((state) => {
+          if (state === "discovering" || state === "connected") {
+            reachedDiscovery = true;
+          }
+        });
+        const success = await this.transport.connect(found.id);
+        unsubscribe();
+
+        if (!success) {
+          connectError =
+            this.transport.getLastError() ??
+            new ConnectionError("unknown", "Connection failed");
+          // Failures after the link came up belong to the next steps
+          if (!reachedDiscovery) throw connectError;
+        }
+        return "Link established";
+      });
+
+      await this.step("services", async () => {
+        if (!(this.transport instanceof BleTransport)) {
+          return null;
+        }
+        const failure = connectError;
+        if (failure && failure.reason !== "characteristicMissing") {
+          throw failure;
+        }
+        return failure ? "Service found" : this.transport.getProfile().name;
+      });
+
+      await this.step("characteristic", async () => {
+        if (!(this.transport instanceof BleTransport)) {
+          return null;
+        }
+        if (connectError) throw connectError;
+        return this.transport.getProfile().characteristicUUID;
+      });
+
+      await this.step("write", async () => {
+        reply = this.waitForReply();
+        await this.transport.write(HANDSHAKE_QUERY);
+        return `Sent handshake query "${HANDSHAKE_QUERY}"`;
+      });
+
+      await this.step("echo", async () => {
+        const data = await reply;
+        if (data === null) {
+          throw new Error(
+            `No reply within ${ECHO_TIMEOUT_MS} ms; firmware may predate the handshake`
+          );
+        }
+        const info = parseFirmwareInfo(data);
+        return info
+          ? `${info.name}, protocol ${info.protocolVersion}, ${info.formats.join("/")}`
+          : `Replied ${JSON.stringify(data.slice(0, 40))} (no handshake)`;
+      });
+    } catch {
+      // The failed step already carries the reason
+    } finally {
+      this.steps = this.steps.map((step) =>
+        step.status === "pending" ? { ...step, status: "skipped" } : step
+      );
+      this.onUpdate(this.steps);
+      if (this.transport.getState() !== "disconnected") {
+        await this.transport.disconnect().catch(() => undefined);
+      }
+    }
+    return this.steps;
+  }
+
+  // Stop after the current step (e.g. when leaving the screen)
+  cancel(): void {
+    this.cancelled = true;
+    this.transport.stopScan();
+  }
+
+  /**
+   * Plain-text report for sharing with whoever helps debug the robot
+   */
+  report(): string {
+    const failed = this.steps.find((step) => step.status === "failed");
+    const lines = [
+      "BeetleBot connection report",
+      `Date: ${new Date().toISOString()}`,
+      `App: ${Constants.expoConfig?.version ?? "unknown"} on ${Platform.OS} ${Platform.Version}`,
+      `Link: ${this.transport.label}`,
+      `Robot: ${this.targetName ?? "none found"}`,
+      "",
+      ...this.steps.map((step) => {
+        const detail = step.detail ? ` - ${step.detail}` : "";
+        const duration =
+          step.durationMs !== null ? ` (${step.durationMs} ms)` : "";
+        return `${STATUS_MARKS[step.status]} ${step.label}${detail}${duration}`;
+      }),
+      "",
+      failed ? `Result: failed at ${failed.label}` : "Result: all checks passed",
+    ];
+    return lines.join("\n");
+  }
+
+  // Run one check; a null detail marks it as not applicable to this link
+  private async step(
+    id: DiagnosticStepId,
+    check: () => Promise<string | null>
+  ): Promise<void> {
+    if (this.cancelled) throw new Error("Cancelled");
+
+    this.update(id, { status: "running" });
+    const startedAt = Date.now();
+    try {
+      const detail = await check();
+      this.update(id, {
+        status: detail === null ? "skipped" : "passed",
+        detail: detail ?? `Not used by ${this.transport.label}`,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      this.update(id, {
+        status: "failed",
+        detail: errorMessage(error),
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    }
+  }
+
+  private update(
+    id: DiagnosticStepId,
+    changes: Partial<DiagnosticStep>
+  ): void {
+    this.steps = this.steps.map((step) =>
+      step.id === id ? { ...step, ...changes } : step
+    );
+    this.onUpdate(this.steps);
+  }
+
+  // Scan until the target (or any robot) shows up
+  private findDevice(targetId?: string): Promise<BluetoothDevice> {
+    return new Promise<BluetoothDevice>((resolve, reject) => {
+      const seen = new Set<string>();
+      let done = false;
+
+      const finish = (device: BluetoothDevice | null, error?: unknown) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timeout);
+        this.transport.stopScan();
+        if (device) {
+          resolve(device);
+        } else if (error) {
+          reject(error);
+        } else if (targetId) {
+          reject(
+            new Error(`Robot not seen (${seen.size} other devices nearby)`)
+          );
+        } else {
+          reject(new Error("No robot advertising nearby"));
+        }
+      };
+
+      const timeout = setTimeout(() => finish(null), SCAN_TIMEOUT_MS);
+      this.transport
+        .scan((found) => {
+          seen.add(found.id);
+          if (!targetId || found.id === targetId) {
+            finish(found);
+          }
+        }, SCAN_TIMEOUT_MS)
+        .catch((error) => finish(null, error));
+    });
+  }
+
+  // Handshake reply if one arrives in time, else the first message (e.g.
+  // telemetry) or null if the robot stayed silent
+  private waitForReply(): Promise<string | null> {
+    return new Promise<string | null>((resolve) => {
+      let first: string | null = null;
+      const finish = (data: string | null) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(data);
+      };
+      const timeout = setTimeout(() => finish(first), ECHO_TIMEOUT_MS);
+      const unsubscribe = this.transport.subscribe((data) => {
+        if (parseFirmwareInfo(data)) {
+          finish(data);
+        } else if (first === null) {
+          first = data;
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import type { Transport } from "../types";
+
+// Heartbeat timing: well inside the firmware's 600 ms command timeout
+const HEARTBEAT_INTERVAL_MS = 250;
+// No reply (heartbeat echo, ACK or telemetry) for this long means link loss
+const LINK_TIMEOUT_MS = 1500;
+// With slower heartbeats, allow this many missed replies instead
+const MISSED_HEARTBEATS = 3;
+
+export interface LinkMonitorOptions {
+  heartbeat?: string | Uint8Array; // Echoed by the firmware ("H")
+  stopCommand?: string | Uint8Array; // Sent when the link comes back ("S")
+  onLinkLost?: () => void;
+  onLinkRestored?: () => void;
+}
+
+/**
+ * Keeps a connected robot alive and watches for a silent link
+ * Sends a heartbeat periodically and treats any incoming data as a reply.
+ * Detection only arms after the first reply, so firmware that never answers
+ * is not reported as lost. When replies stop the link is reported lost;
+ * once they resume a stop command is issued before reporting the link
+ * restored, so the robot never resumes a stale drive command.
+ */
+export class LinkMonitor {
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private lastReplyAt = 0;
+  private hasReplied = false;
+  private linkLost = false;
+  private intervalMs = HEARTBEAT_INTERVAL_MS;
+
+  private readonly heartbeat: string | Uint8Array;
+  private readonly stopCommand: string | Uint8Array;
+
+  constructor(
+    private transport: Transport,
+    private options: LinkMonitorOptions = {}
+  ) {
+    this.heartbeat = options.heartbeat ?? "H";
+    this.stopCommand = options.stopCommand ?? "S";
+  }
+
+  start(): void {
+    if (this.heartbeatInterval) return;
+
+    this.lastReplyAt = Date.now();
+    this.hasReplied = false;
+    this.linkLost = false;
+    this.unsubscribe = this.transport.subscribe(() => this.handleReply());
+    this.heartbeatInterval = setInterval(() => this.tick(), this.intervalMs);
+  }
+
+  /**
+   * Change how often heartbeats are sent (slower while parked)
+   */
+  setHeartbeatInterval(intervalMs: number): void {
+    if (intervalMs === this.intervalMs) return;
+    this.intervalMs = intervalMs;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = setInterval(() => this.tick(), intervalMs);
+    }
+  }
+
+  stop(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.linkLost = false;
+  }
+
+  isLinkLost(): boolean {
+    return this.linkLost;
+  }
+
+  private tick(): void {
+    if (this.transport.getState() !== "connected") return;
+
+    const timeout = Math.max(
+      LINK_TIMEOUT_MS,
+      this.intervalMs * MISSED_HEARTBEATS
+    );
+    const silentFor = Date.now() - this.lastReplyAt;
+    if (this.hasReplied && !this.linkLost && silentFor > timeout) {
+      console.warn("Link lost: no reply for", timeout, "ms");
+      this.linkLost = true;
+      this.options.onLinkLost?.();
+    }
+
+    // Keep probing while lost so recovery is noticed
+    this.transport.write(this.heartbeat).catch(() => {
+      // Write failures are expected while the link is down
+    });
+  }
+
+  private handleReply(): void {
+    this.lastReplyAt = Date.now();
+    this.hasReplied = true;
+    if (!this.linkLost) return;
+
+    console.log("Link restored - sending stop");
+    this.linkLost = false;
+    this.transport
+      .write(this.stopCommand)
+      .catch(console.error)
+      .finally(() => this.options.onLinkRestored?.());
+  }
+}
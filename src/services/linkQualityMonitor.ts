@@ -0,0 +1,183 @@
+import type { LinkQuality, LinkQualityLevel, Transport } from "../types";
+import { encodePing, parsePingReply } from "./protocol";
+
+// Probe timing: one ping a second, counted lost if not echoed within 1 s
+const PING_INTERVAL_MS = 1000;
+const PING_TIMEOUT_MS = 1000;
+const RSSI_INTERVAL_MS = 2000;
+// Pings kept for the average and loss figures
+const WINDOW_SIZE = 20;
+
+// Level thresholds; anything past "poor" is flagged as a warning
+const RTT_FAIR_MS = 150;
+const RTT_POOR_MS = 300;
+const LOSS_FAIR = 0.05;
+const LOSS_POOR = 0.2;
+const RSSI_FAIR_DBM = -80;
+const RSSI_POOR_DBM = -90;
+
+const LEVEL_ORDER: LinkQualityLevel[] = ["unknown", "good", "fair", "poor"];
+
+export interface LinkQualityMonitorOptions {
+  ping?: boolean; // Firmware echoes "P:<n>" (the "ping" feature)
+  onUpdate?: (quality: LinkQuality) => void;
+}
+
+// Where a value falls between its fair and poor thresholds
+function grade(
+  value: number | null,
+  fair: number,
+  poor: number,
+  higherIsWorse: boolean
+): LinkQualityLevel {
+  if (value === null) return "unknown";
+  const worse = (a: number, b: number) => (higherIsWorse ? a >= b : a <= b);
+  if (worse(value, poor)) return "poor";
+  if (worse(value, fair)) return "fair";
+  return "good";
+}
+
+/**
+ * Measures a connected link: ping round trips, loss and signal strength
+ * RTT and loss need the firmware's ping echo; RSSI is polled on any link
+ * that can report it. Results are published after every change.
+ */
+export class LinkQualityMonitor {
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private rssiInterval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private seq = 0;
+  private pending = new Map<number, number>(); // seq -> sent at
+  private samples: (number | null)[] = []; // RTT per ping, null when lost
+  private rssi: number | null = null;
+
+  constructor(
+    private transport: Transport,
+    private options: LinkQualityMonitorOptions = {}
+  ) {}
+
+  start(): void {
+    if (this.rssiInterval) return;
+
+    if (this.options.ping) {
+      this.unsubscribe = this.transport.subscribe((data) =>
+        this.handleData(data)
+      );
+      this.pingInterval = setInterval(() => this.ping(), PING_INTERVAL_MS);
+      this.ping();
+    }
+    this.rssiInterval = setInterval(() => this.pollRssi(), RSSI_INTERVAL_MS);
+    this.pollRssi();
+  }
+
+  stop(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    if (this.rssiInterval) {
+      clearInterval(this.rssiInterval);
+      this.rssiInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.pending.clear();
+    this.samples = [];
+    this.rssi = null;
+  }
+
+  getQuality(): LinkQuality {
+    const received = this.samples.filter(
+      (sample): sample is number => sample !== null
+    );
+    const rttMs = this.samples[this.samples.length - 1] ?? null;
+    const averageRttMs =
+      received.length > 0
+        ? Math.round(
+            received.reduce((sum, sample) => sum + sample, 0) / received.length
+          )
+        : null;
+    const packetLoss =
+      this.samples.length > 0
+        ? (this.samples.length - received.length) / this.samples.length
+        : null;
+
+    const grades = {
+      latency: grade(averageRttMs, RTT_FAIR_MS, RTT_POOR_MS, true),
+      loss: grade(packetLoss, LOSS_FAIR, LOSS_POOR, true),
+      signal: grade(this.rssi, RSSI_FAIR_DBM, RSSI_POOR_DBM, false),
+    };
+    const warnings: string[] = [];
+    if (grades.latency === "poor") warnings.push("High latency");
+    if (grades.loss === "poor") warnings.push("Packets dropping");
+    if (grades.signal === "poor") warnings.push("Weak signal");
+
+    const level = Object.values(grades).reduce((worst, current) =>
+      LEVEL_ORDER.indexOf(current) > LEVEL_ORDER.indexOf(worst)
+        ? current
+        : worst
+    );
+
+    return {
+      rttMs,
+      averageRttMs,
+      packetLoss,
+      rssi: this.rssi,
+      level,
+      warnings,
+    };
+  }
+
+  private ping(): void {
+    if (this.transport.getState() !== "connected") return;
+
+    // Pings older than the timeout count as lost
+    const now = Date.now();
+    this.pending.forEach((sentAt, seq) => {
+      if (now - sentAt > PING_TIMEOUT_MS) {
+        this.pending.delete(seq);
+        this.addSample(null);
+      }
+    });
+
+    const seq = this.seq;
+    this.seq = (this.seq + 1) % 1000;
+    this.pending.set(seq, now);
+    this.transport.write(encodePing(seq)).catch(() => {
+      // Left pending; it times out and counts as lost
+    });
+  }
+
+  private handleData(data: string): void {
+    const seq = parsePingReply(data);
+    if (seq === null) return;
+    const sentAt = this.pending.get(seq);
+    if (sentAt === undefined) return; // Late echo, already counted lost
+    this.pending.delete(seq);
+    this.addSample(Date.now() - sentAt);
+  }
+
+  private async pollRssi(): Promise<void> {
+    if (this.transport.getState() !== "connected") return;
+    try {
+      const rssi = await this.transport.readRssi();
+      if (!this.rssiInterval) return; // Stopped while reading
+      this.rssi = rssi;
+      this.publish();
+    } catch (error) {
+      console.warn("Failed to read RSSI:", error);
+    }
+  }
+
+  private addSample(rttMs: number | null): void {
+    this.samples.push(rttMs);
+    if (this.samples.length > WINDOW_SIZE) {
+      this.samples.shift();
+    }
+    this.publish();
+  }
+
+  private publish(): void {
+    this.options.onUpdate?.(this.getQuality());
+  }
+}
@@ -0,0 +1,56 @@
+import type {
+  ConnectionPriority,
+  DriveActivity,
+  LinkQuality,
+  LinkQualityLevel,
+  LinkTuning,
+} from "../types";
+
+// Drive stream interval by link quality: 20 Hz on a good link, backing off
+// as latency and loss climb so writes do not pile up in the radio queue
+const DRIVE_INTERVAL_MS: Record<LinkQualityLevel, number> = {
+  good: 50,
+  unknown: 50,
+  fair: 80,
+  poor: 120,
+};
+// Never slower than this; the keep-alive and the firmware's 600 ms timeout
+// still need regular drive commands
+const MAX_DRIVE_INTERVAL_MS = 200;
+
+// Heartbeats only keep link loss detection going once the robot has
+// stopped, so they slow down the longer the stick is left alone
+const HEARTBEAT_INTERVAL_MS: Record<DriveActivity, number> = {
+  driving: 250,
+  idle: 500,
+  parked: 1000,
+};
+
+const PRIORITIES: Record<DriveActivity, ConnectionPriority> = {
+  driving: "high",
+  idle: "balanced",
+  parked: "lowPower",
+};
+
+/**
+ * Link settings for what the driver is doing and how the link is holding up
+ */
+export function selectLinkTuning(
+  activity: DriveActivity,
+  quality: LinkQuality | null
+): LinkTuning {
+  const level = quality?.level ?? "unknown";
+  // Sending faster than the robot answers only builds a backlog
+  const rtt = quality?.averageRttMs ?? 0;
+  const sendIntervalMs = Math.min(
+    Math.max(DRIVE_INTERVAL_MS[level], rtt),
+    MAX_DRIVE_INTERVAL_MS
+  );
+
+  return {
+    activity,
+    sendIntervalMs,
+    heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS[activity],
+    priority: PRIORITIES[activity],
+  };
+}
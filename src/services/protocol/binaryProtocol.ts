@@ -0,0 +1,213 @@
+/**
+ * Compact binary command framing (protocol version 1)
+ *
+ * Layout (all multi-byte values big endian):
+ *   [0]     0xBB start byte
+ *   [1]     protocol version
+ *   [2]     frame type
+ *   [3]     sequence number (wraps at 256)
+ *   [4]     payload length N (0..255)
+ *   [5..]   payload (N bytes)
+ *   [+2]    CRC-16/CCITT-FALSE over bytes [1 .. end of payload]
+ */
+
+export const FRAME_START = 0xbb;
+export const PROTOCOL_VERSION = 1;
+const HEADER_SIZE = 5;
+const CRC_SIZE = 2;
+
+// Frame types; 0x80 and above flow from robot to app
+export const FrameType = {
+  DRIVE: 0x01, // int8 left, int8 right (-100..100)
+  STOP: 0x02,
+  BRAKE: 0x03,
+  GEAR: 0x04, // uint8 gear (1 or 2)
+  CLAW: 0x05, // uint8 open (1) / closed (0)
+  ACK: 0x80, // Echoes the seq of the acknowledged frame, no payload
+} as const;
+
+export type FrameTypeValue = (typeof FrameType)[keyof typeof FrameType];
+
+export interface Frame {
+  version: number;
+  type: number;
+  seq: number;
+  payload: Uint8Array;
+}
+
+// CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF)
+export function crc16(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+// Build a complete frame ready for the wire
+export function encodeFrame(
+  type: number,
+  seq: number,
+  payload: Uint8Array = new Uint8Array(0)
+): Uint8Array {
+  if (payload.length > 0xff) {
+    throw new Error(`Frame payload too large: ${payload.length} bytes`);
+  }
+
+  const frame = new Uint8Array(HEADER_SIZE + payload.length + CRC_SIZE);
+  frame[0] = FRAME_START;
+  frame[1] = PROTOCOL_VERSION;
+  frame[2] = type & 0xff;
+  frame[3] = seq & 0xff;
+  frame[4] = payload.length;
+  frame.set(payload, HEADER_SIZE);
+
+  const crcOffset = HEADER_SIZE + payload.length;
+  const crc = crc16(frame, 1, crcOffset);
+  frame[crcOffset] = crc >> 8;
+  frame[crcOffset + 1] = crc & 0xff;
+  return frame;
+}
+
+// Decode a single complete frame, or null if it is malformed
+export function decodeFrame(bytes: Uint8Array): Frame | null {
+  if (bytes.length < HEADER_SIZE + CRC_SIZE) return null;
+  if (bytes[0] !== FRAME_START) return null;
+
+  const length = bytes[4];
+  const crcOffset = HEADER_SIZE + length;
+  if (bytes.length !== crcOffset + CRC_SIZE) return null;
+
+  const expected = (bytes[crcOffset] << 8) | bytes[crcOffset + 1];
+  if (crc16(bytes, 1, crcOffset) !== expected) return null;
+
+  return {
+    version: bytes[1],
+    type: bytes[2],
+    seq: bytes[3],
+    payload: bytes.slice(HEADER_SIZE, crcOffset),
+  };
+}
+
+/**
+ * Reassembles frames from a byte stream (Classic delivers arbitrary chunks)
+ * Bytes before a start marker and frames failing the CRC are discarded
+ */
+export class FrameDecoder {
+  private buffer: number[] = [];
+
+  push(chunk: Uint8Array): Frame[] {
+    chunk.forEach((byte) => this.buffer.push(byte));
+
+    const frames: Frame[] = [];
+    while (this.buffer.length > 0) {
+      const start = this.buffer.indexOf(FRAME_START);
+      if (start === -1) {
+        this.buffer = [];
+        break;
+      }
+      if (start > 0) {
+        this.buffer.splice(0, start);
+      }
+      if (this.buffer.length < HEADER_SIZE) break;
+
+      const total = HEADER_SIZE + this.buffer[4] + CRC_SIZE;
+      if (this.buffer.length < total) break;
+
+      const frame = decodeFrame(Uint8Array.from(this.buffer.slice(0, total)));
+      if (frame) {
+        frames.push(frame);
+        this.buffer.splice(0, total);
+      } else {
+        // Not a real frame start: resync on the next marker
+        this.buffer.splice(0, 1);
+      }
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.buffer = [];
+  }
+}
+
+// Longest text line kept while waiting for its newline
+const MAX_LINE_BYTES = 1024;
+
+/**
+ * Splits a raw byte stream into messages: binary frames and newline
+ * terminated text lines (Classic carries both on one socket)
+ * Messages are returned as binary strings, like BLE notifications.
+ */
+export class MessageSplitter {
+  private buffer: number[] = [];
+
+  push(chunk: Uint8Array): string[] {
+    chunk.forEach((byte) => this.buffer.push(byte));
+
+    const messages: string[] = [];
+    while (this.buffer.length > 0) {
+      if (this.buffer[0] === FRAME_START) {
+        if (this.buffer.length < HEADER_SIZE) break;
+        const total = HEADER_SIZE + this.buffer[4] + CRC_SIZE;
+        if (this.buffer.length < total) break;
+
+        const bytes = Uint8Array.from(this.buffer.slice(0, total));
+        if (decodeFrame(bytes)) {
+          messages.push(bytesToBinaryString(bytes));
+          this.buffer.splice(0, total);
+          continue;
+        }
+        // Not a valid frame: treat it as text
+      }
+
+      const newline = this.buffer.indexOf(0x0a);
+      if (newline === -1) {
+        if (this.buffer.length > MAX_LINE_BYTES) this.buffer = [];
+        break;
+      }
+      const line = this.buffer.slice(0, newline);
+      this.buffer.splice(0, newline + 1);
+      if (line[line.length - 1] === 0x0d) line.pop();
+      if (line.length > 0) {
+        messages.push(bytesToBinaryString(Uint8Array.from(line)));
+      }
+    }
+    return messages;
+  }
+
+  reset(): void {
+    this.buffer = [];
+  }
+}
+
+// Signed -100..100 value as an int8 byte
+export function toInt8(value: number): number {
+  const clamped = Math.round(Math.max(-100, Math.min(100, value)));
+  return clamped & 0xff;
+}
+
+// int8 byte back to a signed value
+export function fromInt8(byte: number): number {
+  return byte > 0x7f ? byte - 0x100 : byte;
+}
+
+// Latin-1 string <-> bytes, used where native APIs carry binary as text
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  let result = "";
+  bytes.forEach((byte) => {
+    result += String.fromCharCode(byte);
+  });
+  return result;
+}
+
+export function binaryStringToBytes(data: string): Uint8Array {
+  const bytes = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    bytes[i] = data.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
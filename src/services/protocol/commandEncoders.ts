@@ -0,0 +1,139 @@
+import type {
+  CommandEncoder,
+  CommandFormat,
+  GearType,
+  MotorCommand,
+} from "../../types";
+import { formatDriveCommand } from "./textProtocol";
+import {
+  encodeFrame,
+  Frame,
+  FrameType,
+  fromInt8,
+  toInt8,
+} from "./binaryProtocol";
+
+/**
+ * JSON encoding understood by BeetleBot_ESP32.ino
+ */
+export class JsonCommandEncoder implements CommandEncoder {
+  readonly format = "json" as const;
+  readonly supportsAck = false;
+
+  encode(command: MotorCommand): string {
+    return JSON.stringify(command);
+  }
+}
+
+/**
+ * Character protocol fallback for firmware without JSON or binary support
+ */
+export class TextCommandEncoder implements CommandEncoder {
+  readonly format = "text" as const;
+  readonly supportsAck = false;
+
+  encode(command: MotorCommand): string {
+    switch (command.type) {
+      case "joystick":
+        return formatDriveCommand(command.leftSpeed, command.rightSpeed);
+      case "stop":
+      case "brake":
+        // Character firmware has no active brake
+        return "S";
+      case "gear":
+        return command.gear === "2" ? "MAX:180" : "MAX:60";
+      case "claw":
+        return command.clawOpen ? "O" : "C";
+    }
+  }
+}
+
+/**
+ * Binary frames; the firmware acknowledges critical frames by sequence number
+ */
+export class BinaryCommandEncoder implements CommandEncoder {
+  readonly format = "binary" as const;
+  readonly supportsAck = true;
+
+  encode(command: MotorCommand, seq: number): Uint8Array {
+    switch (command.type) {
+      case "joystick":
+        return encodeFrame(
+          FrameType.DRIVE,
+          seq,
+          Uint8Array.of(toInt8(command.leftSpeed), toInt8(command.rightSpeed))
+        );
+      case "stop":
+        return encodeFrame(FrameType.STOP, seq);
+      case "brake":
+        return encodeFrame(FrameType.BRAKE, seq);
+      case "gear":
+        return encodeFrame(
+          FrameType.GEAR,
+          seq,
+          Uint8Array.of(command.gear === "2" ? 2 : 1)
+        );
+      case "claw":
+        return encodeFrame(
+          FrameType.CLAW,
+          seq,
+          Uint8Array.of(command.clawOpen ? 1 : 0)
+        );
+    }
+  }
+}
+
+// Commands whose loss is unsafe; joystick updates are superseded anyway
+export function isCriticalCommand(command: MotorCommand): boolean {
+  return command.type !== "joystick";
+}
+
+// Create the encoder for a wire format
+export function createCommandEncoder(format: CommandFormat): CommandEncoder {
+  switch (format) {
+    case "text":
+      return new TextCommandEncoder();
+    case "json":
+      return new JsonCommandEncoder();
+    case "binary":
+      return new BinaryCommandEncoder();
+  }
+}
+
+// Decode a command frame back into a MotorCommand (robot side / simulator)
+export function decodeCommandFrame(
+  frame: Frame,
+  gear: GearType
+): MotorCommand | null {
+  const base: MotorCommand = {
+    type: "stop",
+    leftSpeed: 0,
+    rightSpeed: 0,
+    gear,
+    clawOpen: false,
+    timestamp: Date.now(),
+  };
+
+  switch (frame.type) {
+    case FrameType.DRIVE:
+      if (frame.payload.length < 2) return null;
+      return {
+        ...base,
+        type: "joystick",
+        leftSpeed: fromInt8(frame.payload[0]),
+        rightSpeed: fromInt8(frame.payload[1]),
+      };
+    case FrameType.STOP:
+      return base;
+    case FrameType.BRAKE:
+      return { ...base, type: "brake" };
+    case FrameType.GEAR:
+      if (frame.payload.length < 1) return null;
+      return { ...base, type: "gear", gear: frame.payload[0] === 2 ? "2" : "1" };
+    case FrameType.CLAW:
+      if (frame.payload.length < 1) return null;
+      return { ...base, type: "claw", clawOpen: frame.payload[0] === 1 };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,129 @@
+import type {
+  CommandFormat,
+  FirmwareInfo,
+  RobotFeature,
+  Transport,
+} from "../../types";
+
+// Query understood by every firmware variant; the reply is a JSON message:
+//   {"type":"info","name":"BeetleBot-PS4","protocol":1,
+//    "formats":["text","binary"],"features":["cardinal","claw",...]}
+export const HANDSHAKE_QUERY = "?";
+const HANDSHAKE_TIMEOUT_MS = 1500;
+
+// Preferred encodings, most capable first
+const FORMAT_PREFERENCE: CommandFormat[] = ["binary", "json", "text"];
+
+const KNOWN_FORMATS: CommandFormat[] = ["text", "json", "binary"];
+const KNOWN_FEATURES: RobotFeature[] = [
+  "cardinal",
+  "proportional",
+  "claw",
+  "gear",
+  "heartbeat",
+  "telemetry",
+  "ack",
+  "ping",
+];
+
+// What firmware that predates the handshake supports, by command format
+const LEGACY_FEATURES: Record<CommandFormat, RobotFeature[]> = {
+  text: ["cardinal", "claw"],
+  json: ["proportional", "claw", "gear"],
+  binary: ["proportional", "claw", "ack"],
+};
+
+/**
+ * Assumed capabilities of firmware that does not answer the handshake
+ */
+export function legacyFirmwareInfo(format: CommandFormat): FirmwareInfo {
+  return {
+    name: "Unknown firmware",
+    protocolVersion: 0,
+    formats: [format],
+    features: LEGACY_FEATURES[format],
+    legacy: true,
+  };
+}
+
+// The original character-protocol sketch
+export const LEGACY_FIRMWARE = legacyFirmwareInfo("text");
+
+/**
+ * Parse a handshake reply, or null if the message is something else
+ */
+export function parseFirmwareInfo(message: string): FirmwareInfo | null {
+  const trimmed = message.trim();
+  if (!trimmed.startsWith("{")) return null;
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (data?.type !== "info") return null;
+
+  const list = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(String) : [];
+  const formats = list(data.formats).filter((format): format is CommandFormat =>
+    KNOWN_FORMATS.includes(format as CommandFormat)
+  );
+  const features = list(data.features).filter(
+    (feature): feature is RobotFeature =>
+      KNOWN_FEATURES.includes(feature as RobotFeature)
+  );
+
+  return {
+    name: typeof data.name === "string" ? data.name : "BeetleBot",
+    protocolVersion: Number(data.protocol) || 0,
+    formats: formats.length > 0 ? formats : ["text"],
+    features,
+    legacy: false,
+  };
+}
+
+/**
+ * Pick the most capable command encoding the firmware accepts
+ */
+export function selectCommandFormat(info: FirmwareInfo): CommandFormat {
+  return (
+    FORMAT_PREFERENCE.find((format) => info.formats.includes(format)) ?? "text"
+  );
+}
+
+/**
+ * Ask the connected robot for its firmware info
+ * Resolves with the fallback (e.g. from the device profile) if it does not
+ * answer in time
+ */
+export function requestFirmwareInfo(
+  transport: Transport,
+  fallback: FirmwareInfo = LEGACY_FIRMWARE,
+  timeoutMs: number = HANDSHAKE_TIMEOUT_MS
+): Promise<FirmwareInfo> {
+  return new Promise<FirmwareInfo>((resolve) => {
+    const finish = (info: FirmwareInfo) => {
+      clearTimeout(timeout);
+      unsubscribe();
+      resolve(info);
+    };
+
+    const timeout = setTimeout(() => {
+      console.log("No handshake reply - assuming legacy firmware");
+      finish(fallback);
+    }, timeoutMs);
+
+    const unsubscribe = transport.subscribe((data) => {
+      const info = parseFirmwareInfo(data);
+      if (info) {
+        finish(info);
+      }
+    });
+
+    transport.write(HANDSHAKE_QUERY).catch((error) => {
+      console.warn("Handshake query failed:", error);
+      finish(fallback);
+    });
+  });
+}
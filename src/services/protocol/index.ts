@@ -0,0 +1,7 @@
+export * from "./binaryProtocol";
+export * from "./commandEncoders";
+export * from "./textProtocol";
+export * from "./reliableSender";
+export * from "./telemetry";
+export * from "./handshake";
+export * from "./ping";
@@ -0,0 +1,17 @@
+// Round-trip probe: the app writes "P:<n>" and firmware with the "ping"
+// feature echoes the same text back unchanged
+export const PING_PREFIX = "P:";
+
+export function encodePing(seq: number): string {
+  return `${PING_PREFIX}${seq}`;
+}
+
+/**
+ * Sequence number of a ping echo, or null if the message is something else
+ */
+export function parsePingReply(message: string): number | null {
+  const trimmed = message.trim();
+  if (!trimmed.startsWith(PING_PREFIX)) return null;
+  const seq = Number(trimmed.slice(PING_PREFIX.length));
+  return Number.isInteger(seq) ? seq : null;
+}
@@ -0,0 +1,113 @@
+import type { CommandEncoder, MotorCommand, Transport } from "../../types";
+import { binaryStringToBytes, FrameDecoder, FrameType } from "./binaryProtocol";
+import { isCriticalCommand } from "./commandEncoders";
+
+// Retry policy for acknowledged commands: 4 attempts, ~600 ms worst case
+const ACK_TIMEOUT_MS = 150;
+const MAX_ATTEMPTS = 4;
+
+/**
+ * Sends MotorCommands with sequence numbers over a transport
+ * Critical commands (stop, brake, gear, claw) wait for an ACK and are
+ * retried; joystick updates are fire-and-forget. Formats without ACK
+ * support (text, JSON) are always sent once.
+ */
+export class ReliableSender {
+  private seq = 0;
+  private pendingAcks = new Map<number, () => void>();
+  private frameDecoder = new FrameDecoder();
+  private unsubscribe: () => void;
+  private disposed = false;
+
+  constructor(
+    private transport: Transport,
+    private encoder: CommandEncoder
+  ) {
+    this.unsubscribe = transport.subscribe((data) => this.handleData(data));
+  }
+
+  setEncoder(encoder: CommandEncoder): void {
+    this.encoder = encoder;
+  }
+
+  /**
+   * Send a command; resolves false if a critical command was never acknowledged
+   * Rejects once the sender is disposed, including between retries.
+   */
+  async send(command: MotorCommand): Promise<boolean> {
+    this.assertActive(command);
+    const seq = this.nextSeq();
+    const data = this.encoder.encode(command, seq);
+
+    if (!this.encoder.supportsAck || !isCriticalCommand(command)) {
+      await this.transport.write(data);
+      return true;
+    }
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      this.assertActive(command);
+      const acked = this.waitForAck(seq);
+      try {
+        await this.transport.write(data);
+      } catch (error) {
+        console.warn(`Write failed (${command.type}, seq ${seq}):`, error);
+      }
+
+      if (await acked) {
+        return true;
+      }
+      console.warn(
+        `No ACK for ${command.type} (seq ${seq}), attempt ${attempt}/${MAX_ATTEMPTS}`
+      );
+    }
+
+    console.error(`Command ${command.type} (seq ${seq}) was not acknowledged`);
+    return false;
+  }
+
+  // Stop listening; sends still retrying reject at their next attempt
+  dispose(): void {
+    this.disposed = true;
+    this.unsubscribe();
+    this.pendingAcks.clear();
+    this.frameDecoder.reset();
+  }
+
+  private assertActive(command: MotorCommand): void {
+    if (this.disposed) {
+      throw new Error(`Sender disposed, ${command.type} not sent`);
+    }
+  }
+
+  private nextSeq(): number {
+    const seq = this.seq;
+    this.seq = (this.seq + 1) & 0xff;
+    return seq;
+  }
+
+  // Resolve true on ACK, false after ACK_TIMEOUT_MS
+  private waitForAck(seq: number): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingAcks.delete(seq);
+        resolve(false);
+      }, ACK_TIMEOUT_MS);
+
+      this.pendingAcks.set(seq, () => {
+        clearTimeout(timeout);
+        this.pendingAcks.delete(seq);
+        resolve(true);
+      });
+    });
+  }
+
+  private handleData(data: string): void {
+    if (this.pendingAcks.size === 0) return;
+
+    this.frameDecoder.push(binaryStringToBytes(data)).forEach((frame) => {
+      if (frame.type === FrameType.ACK) {
+        this.pendingAcks.get(frame.seq)?.();
+      }
+    });
+  }
+}
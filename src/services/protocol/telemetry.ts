@@ -0,0 +1,56 @@
+import type { GearType, VehicleTelemetry } from "../../types";
+
+// Telemetry older than this is shown as stale (firmware reports every 500 ms)
+export const TELEMETRY_STALE_MS = 2000;
+
+/**
+ * Parse a telemetry notification from the robot
+ * Expects the JSON message sent by the firmware and the simulator:
+ *   {"type":"telemetry","battery":87,"isMoving":true,"speed":42,"gear":"2","temperature":31.5}
+ * Returns null for anything else (ACK frames, log lines, partial data)
+ */
+export function parseTelemetry(
+  message: string,
+  timestamp: number = Date.now()
+): VehicleTelemetry | null {
+  const trimmed = message.trim();
+  if (!trimmed.startsWith("{")) return null;
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (data?.type !== "telemetry") return null;
+
+  const battery = Number(data.battery);
+  const speed = Number(data.speed);
+  const temperature = Number(data.temperature);
+  const gear = String(data.gear);
+  if (
+    !Number.isFinite(battery) ||
+    !Number.isFinite(speed) ||
+    !Number.isFinite(temperature) ||
+    (gear !== "1" && gear !== "2")
+  ) {
+    return null;
+  }
+
+  return {
+    battery: Math.max(0, Math.min(100, battery)),
+    isMoving: Boolean(data.isMoving),
+    speed,
+    gear: gear as GearType,
+    temperature,
+    timestamp,
+  };
+}
+
+// True when no telemetry arrived within TELEMETRY_STALE_MS
+export function isTelemetryStale(
+  telemetry: VehicleTelemetry | null,
+  now: number = Date.now()
+): boolean {
+  return !telemetry || now - telemetry.timestamp > TELEMETRY_STALE_MS;
+}
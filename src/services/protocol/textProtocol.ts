@@ -0,0 +1,29 @@
+// Character protocol understood by BeetleBot_ESP32_wPS4Controller.ino
+
+const DRIVE_PREFIX = "D:";
+
+// Clamp and round a signed wheel speed to the -100..100 wire range
+function toWireSpeed(value: number): number {
+  return Math.round(Math.max(-100, Math.min(100, value)));
+}
+
+// Build a proportional drive command: D:<left>,<right>
+export function formatDriveCommand(left: number, right: number): string {
+  return `${DRIVE_PREFIX}${toWireSpeed(left)},${toWireSpeed(right)}`;
+}
+
+// Parse a proportional drive command, or null if it is not one
+export function parseDriveCommand(
+  cmd: string
+): { left: number; right: number } | null {
+  if (!cmd.startsWith(DRIVE_PREFIX)) return null;
+
+  const [left, right] = cmd.substring(DRIVE_PREFIX.length).split(",");
+  if (left === undefined || right === undefined) return null;
+
+  const leftValue = parseInt(left, 10);
+  const rightValue = parseInt(right, 10);
+  if (Number.isNaN(leftValue) || Number.isNaN(rightValue)) return null;
+
+  return { left: toWireSpeed(leftValue), right: toWireSpeed(rightValue) };
+}
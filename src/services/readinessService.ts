@@ -0,0 +1,173 @@
+import { Linking, PermissionsAndroid, Platform } from "react-native";
+import type { Permission } from "react-native";
+import * as Location from "expo-location";
+import type {
+  ConnectionErrorReason,
+  ReadinessResult,
+  Transport,
+  TransportKind,
+} from "../types";
+import { ConnectionError } from "./connectionError";
+
+interface PermissionCheck {
+  granted: boolean;
+  canAskAgain: boolean;
+}
+
+// Links that need no Bluetooth permissions or radio
+const NO_RADIO_KINDS: TransportKind[] = ["simulated", "wifi"];
+
+const ALWAYS_READY: ReadinessResult = {
+  ready: true,
+  permissionsGranted: true,
+  canAskAgain: true,
+  locationEnabled: true,
+  adapter: "poweredOn",
+  issue: null,
+};
+
+const ISSUE_MESSAGES: Partial<Record<ConnectionErrorReason, string>> = {
+  permissionDenied: "Permissions not granted",
+  locationOff: "Location services not enabled",
+  bluetoothOff: "Bluetooth is not enabled",
+  unsupported: "Bluetooth is not supported on this device",
+};
+
+// Runtime permissions needed for scanning and connecting on this Android
+// version. Android 12+ split out BLUETOOTH_SCAN/CONNECT; older versions only
+// gate scans behind location. Location is requested on both since the BLE
+// scan does not declare neverForLocation.
+function requiredAndroidPermissions(): Permission[] {
+  const { PERMISSIONS } = PermissionsAndroid;
+  return Number(Platform.Version) >= 31
+    ? [
+        PERMISSIONS.BLUETOOTH_SCAN,
+        PERMISSIONS.BLUETOOTH_CONNECT,
+        PERMISSIONS.ACCESS_FINE_LOCATION,
+      ]
+    : [PERMISSIONS.ACCESS_FINE_LOCATION];
+}
+
+/**
+ * Checks everything a scan or connection depends on: runtime permissions,
+ * location services and the adapter's power state, and opens the system
+ * screens that fix each of them
+ */
+export class ReadinessService {
+  /**
+   * Check (and by default request) what the transport needs
+   */
+  static async check(
+    transport: Transport,
+    request: boolean = true
+  ): Promise<ReadinessResult> {
+    if (NO_RADIO_KINDS.includes(transport.kind)) return ALWAYS_READY;
+
+    const permissions = await ReadinessService.checkPermissions(request);
+    const locationEnabled = await ReadinessService.isLocationEnabled();
+    const adapter = permissions.granted
+      ? await transport.getAdapterState()
+      : "unknown";
+
+    let issue: ConnectionErrorReason | null = null;
+    if (!permissions.granted || adapter === "unauthorized") {
+      issue = "permissionDenied";
+    } else if (!locationEnabled) {
+      issue = "locationOff";
+    } else if (adapter === "poweredOff") {
+      issue = "bluetoothOff";
+    } else if (adapter === "unsupported") {
+      issue = "unsupported";
+    } else if (adapter !== "poweredOn") {
+      issue = "unknown";
+    }
+
+    console.log("Readiness:", transport.kind, issue ?? "ready");
+    return {
+      ready: issue === null,
+      permissionsGranted: permissions.granted,
+      canAskAgain: permissions.canAskAgain,
+      locationEnabled,
+      adapter,
+      issue,
+    };
+  }
+
+  /**
+   * Throw the readiness issue as a ConnectionError (used before scans)
+   */
+  static async ensureReady(transport: Transport): Promise<void> {
+    const { issue } = await ReadinessService.check(transport);
+    if (issue) {
+      throw new ConnectionError(
+        issue,
+        ISSUE_MESSAGES[issue] ?? "Bluetooth is not ready"
+      );
+    }
+  }
+
+  /**
+   * Open the system screen that fixes the issue
+   */
+  static async openRemedy(issue: ConnectionErrorReason): Promise<void> {
+    try {
+      if (Platform.OS === "android" && issue === "locationOff") {
+        // Shows the in-app "turn on location" dialog where available
+        await Location.enableNetworkProviderAsync().catch(() =>
+          Linking.sendIntent("android.settings.LOCATION_SOURCE_SETTINGS")
+        );
+      } else if (Platform.OS === "android" && issue === "bluetoothOff") {
+        await Linking.sendIntent("android.settings.BLUETOOTH_SETTINGS");
+      } else {
+        await Linking.openSettings();
+      }
+    } catch (error) {
+      console.warn("Failed to open settings:", error);
+    }
+  }
+
+  private static async checkPermissions(
+    request: boolean
+  ): Promise<PermissionCheck> {
+    if (Platform.OS === "android") {
+      const permissions = requiredAndroidPermissions();
+      if (!request) {
+        const granted = await Promise.all(
+          permissions.map((permission) => PermissionsAndroid.check(permission))
+        );
+        return { granted: granted.every(Boolean), canAskAgain: true };
+      }
+
+      const results = await PermissionsAndroid.requestMultiple(permissions);
+      const statuses = permissions.map((permission) => results[permission]);
+      console.log("Permissions:", results);
+      return {
+        granted: statuses.every(
+          (status) => status === PermissionsAndroid.RESULTS.GRANTED
+        ),
+        canAskAgain: !statuses.includes(
+          PermissionsAndroid.RESULTS.NEVER_ASK_AGAIN
+        ),
+      };
+    }
+
+    if (Platform.OS === "ios") {
+      const { granted, canAskAgain } = request
+        ? await Location.requestForegroundPermissionsAsync()
+        : await Location.getForegroundPermissionsAsync();
+      return { granted, canAskAgain };
+    }
+
+    return { granted: true, canAskAgain: true };
+  }
+
+  private static async isLocationEnabled(): Promise<boolean> {
+    if (Platform.OS !== "android") return true;
+    try {
+      return await Location.hasServicesEnabledAsync();
+    } catch (error) {
+      console.warn("Failed to check location services:", error);
+      return true;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./webSocketServer";
+export * from "./relayPage";
+export * from "./remoteRelay";
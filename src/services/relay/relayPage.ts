@@ -0,0 +1,131 @@
+/**
+ * Browser control page served by the relay (plain ASCII: the relay sends
+ * it byte for byte)
+ * The PIN shown on the phone unlocks the session. Arrow keys / WASD or the
+ * on-screen pad drive; drive messages repeat while held so the relay's
+ * watchdog stops the robot if the browser goes quiet.
+ */
+export const RELAY_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>BeetleBot Remote</title>
+<style>
+  body { font-family: sans-serif; background: #fafafa; color: #333;
+    display: flex; flex-direction: column; align-items: center; }
+  h1 span { color: #FF9E42; }
+  #status { font-weight: 600; color: #999; margin: 8px; }
+  #pad { display: grid; grid-template-columns: repeat(3, 72px); gap: 8px; }
+  button { height: 56px; border-radius: 16px; border: 1px solid #ddd;
+    background: #f5f5f5; font-size: 16px; font-weight: 600; color: #666; }
+  button.active { background: #FFE5D0; border-color: #FF9E42; color: #FF9E42; }
+  #stop { background: #ef4444; color: #fff; border: none; }
+  .row { display: flex; gap: 8px; margin: 12px; }
+  input { font-size: 24px; width: 140px; text-align: center; }
+</style>
+</head>
+<body>
+<h1><span>Beetle</span>Bot Remote</h1>
+<div id="login" class="row">
+  <input id="pin" inputmode="numeric" maxlength="6" placeholder="PIN">
+  <button id="connect">Connect</button>
+</div>
+<div id="status">Enter the PIN shown on the phone</div>
+<div id="controls" hidden>
+  <div id="pad">
+    <span></span><button data-dir="F">&#9650;</button><span></span>
+    <button data-dir="L">&#9664;</button><button id="stop">STOP</button>
+    <button data-dir="R">&#9654;</button>
+    <span></span><button data-dir="B">&#9660;</button><span></span>
+  </div>
+  <div class="row">
+    <button data-gear="1" class="active">Gear 1</button>
+    <button data-gear="2">Gear 2</button>
+    <button id="claw">Claw</button>
+  </div>
+</div>
+<script>
+  var SPEEDS = { F: [1, 1], B: [-1, -1], L: [-1, 1], R: [1, -1] };
+  var KEYS = { ArrowUp: "F", w: "F", ArrowDown: "B", s: "B",
+    ArrowLeft: "L", a: "L", ArrowRight: "R", d: "R" };
+  var socket = null, held = null, timer = null, gear = "1", clawOpen = false;
+  var $ = function (id) { return document.getElementById(id); };
+
+  function send(message) {
+    if (socket && socket.readyState === 1) socket.send(JSON.stringify(message));
+  }
+  function drive() {
+    var max = gear === "2" ? 100 : 60, speeds = SPEEDS[held];
+    send({ type: "drive", left: speeds[0] * max, right: speeds[1] * max });
+  }
+  function press(dir) {
+    if (held === dir) return;
+    held = dir;
+    clearInterval(timer);
+    drive();
+    timer = setInterval(drive, 100);
+  }
+  function release(force) {
+    if (!held && force !== true) return;
+    held = null;
+    clearInterval(timer);
+    send({ type: "stop" });
+  }
+
+  $("connect").onclick = function () {
+    socket = new WebSocket("ws://" + location.host + "/");
+    socket.onopen = function () { send({ type: "auth", pin: $("pin").value }); };
+    socket.onmessage = function (event) {
+      var message = JSON.parse(event.data);
+      if (message.type === "status") {
+        var granted = message.control === "remote";
+        $("login").hidden = true;
+        $("controls").hidden = false;
+        $("status").textContent = granted
+          ? "Driving " + (message.robot || "(no robot connected)")
+          : "The phone has taken over";
+      } else if (message.type === "error") {
+        $("status").textContent = message.message;
+      }
+    };
+    socket.onclose = function () {
+      release();
+      $("login").hidden = false;
+      $("controls").hidden = true;
+      if ($("status").textContent.indexOf("Driving") === 0) {
+        $("status").textContent = "Disconnected";
+      }
+    };
+  };
+
+  document.querySelectorAll("[data-dir]").forEach(function (button) {
+    var dir = button.getAttribute("data-dir");
+    button.onpointerdown = function () { press(dir); };
+    button.onpointerup = button.onpointerleave = release;
+  });
+  document.querySelectorAll("[data-gear]").forEach(function (button) {
+    button.onclick = function () {
+      gear = button.getAttribute("data-gear");
+      document.querySelectorAll("[data-gear]").forEach(function (other) {
+        other.className = other === button ? "active" : "";
+      });
+      send({ type: "gear", gear: gear });
+    };
+  });
+  $("stop").onclick = function () { release(true); };
+  $("claw").onclick = function () {
+    clawOpen = !clawOpen;
+    $("claw").className = clawOpen ? "active" : "";
+    send({ type: "claw", open: clawOpen });
+  };
+  document.onkeydown = function (event) {
+    if (KEYS[event.key]) { event.preventDefault(); press(KEYS[event.key]); }
+  };
+  document.onkeyup = function (event) {
+    if (KEYS[event.key] === held) release();
+  };
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,335 @@
+import { Platform } from "react-native";
+import { getRandomBytes } from "expo-crypto";
+import type { GearType, MotorCommand, RelayStatus } from "../../types";
+import { RELAY_PAGE } from "./relayPage";
+import { WebSocketClient, WebSocketServer } from "./webSocketServer";
+
+// Port the browser opens (http://<phone IP>:8080)
+export const RELAY_PORT = 8080;
+
+// A browser must send the PIN this soon after connecting
+const AUTH_TIMEOUT_MS = 5000;
+// Wrong PINs before the relay locks and draws a new one
+const MAX_FAILED_ATTEMPTS = 3;
+// Every PIN is refused for this long after a lockout
+const LOCKOUT_MS = 30_000;
+// The page repeats drive messages every 100 ms; silence means it is gone
+const DRIVE_TIMEOUT_MS = 500;
+
+// Messages the control page sends (see relayPage.ts)
+type RemoteMessage =
+  | { type: "auth"; pin: string }
+  | { type: "drive"; left: number; right: number }
+  | { type: "stop" }
+  | { type: "gear"; gear: GearType }
+  | { type: "claw"; open: boolean };
+
+function parseMessage(text: string): RemoteMessage | null {
+  try {
+    const message = JSON.parse(text);
+    return message && typeof message.type === "string" ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+function clampSpeed(value: unknown): number {
+  const speed = Number(value);
+  return Number.isFinite(speed)
+    ? Math.max(-100, Math.min(100, Math.round(speed)))
+    : 0;
+}
+
+// Largest multiple of 1,000,000 below 2^32, so every PIN is equally likely
+const PIN_RANGE_LIMIT = Math.floor(2 ** 32 / 1_000_000) * 1_000_000;
+
+// Six digits from the system's secure random source
+function randomPin(): string {
+  for (;;) {
+    const [a, b, c, d] = getRandomBytes(4);
+    const value = ((a << 24) | (b << 16) | (c << 8) | d) >>> 0;
+    if (value < PIN_RANGE_LIMIT) {
+      return String(value % 1_000_000).padStart(6, "0");
+    }
+  }
+}
+
+export interface RemoteRelayOptions {
+  // Deliver a command to the robot on the main link
+  forward: (command: MotorCommand) => void;
+  // Name of the robot being driven, for the browser
+  getRobotName: () => string | null;
+  onStatus: (status: RelayStatus) => void;
+}
+
+/**
+ * Lets one browser on the local network drive the robot through the phone
+ * The phone serves a control page and a WebSocket. A browser is only given
+ * control after sending the PIN shown on the phone, and only one browser
+ * drives at a time. The phone stays in charge: taking over stops the robot
+ * and ignores the browser until handed back; revoking disconnects it and
+ * draws a new PIN so it cannot simply reconnect.
+ */
+export class RemoteRelay {
+  private server: WebSocketServer | null = null;
+  private controller: WebSocketClient | null = null;
+  private pending = new Map<
+    WebSocketClient,
+    ReturnType<typeof setTimeout>
+  >();
+  private failedAttempts = 0;
+  private lockoutTimeout: ReturnType<typeof setTimeout> | null = null;
+  private driveTimeout: ReturnType<typeof setTimeout> | null = null;
+  private gear: GearType = "1";
+  private clawOpen = false;
+  private status: RelayStatus = {
+    state: "off",
+    port: RELAY_PORT,
+    pin: null,
+    clientAddress: null,
+    lockedUntil: null,
+    error: null,
+  };
+
+  constructor(private options: RemoteRelayOptions) {}
+
+  getStatus(): RelayStatus {
+    return this.status;
+  }
+
+  /**
+   * Start listening with a fresh PIN
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    if (Platform.OS === "web") {
+      this.update({ error: "The relay needs the phone app" });
+      return;
+    }
+
+    const server = new WebSocketServer({
+      page: RELAY_PAGE,
+      onOpen: (client) => this.handleOpen(client),
+      onMessage: (client, text) => this.handleMessage(client, text),
+      onClose: (client) => this.handleClose(client),
+    });
+    try {
+      await server.start(RELAY_PORT);
+    } catch (error) {
+      console.error("Relay start error:", error);
+      server.stop();
+      this.update({
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    this.server = server;
+    this.failedAttempts = 0;
+    this.update({ state: "waiting", pin: randomPin(), error: null });
+  }
+
+  /**
+   * Stop the robot, drop every browser and stop listening
+   */
+  stop(): void {
+    if (!this.server) return;
+    this.revoke();
+    this.pending.forEach((timeout) => clearTimeout(timeout));
+    this.pending.clear();
+    this.clearLockout();
+    this.server.stop();
+    this.server = null;
+    this.update({ state: "off", pin: null, lockedUntil: null });
+  }
+
+  /**
+   * Phone takes over: the robot stops and browser commands are ignored
+   */
+  takeOver(): void {
+    if (this.status.state !== "remote") return;
+    this.stopRobot();
+    this.update({ state: "overridden" });
+    this.sendStatus();
+  }
+
+  /**
+   * Give control back to the connected browser
+   */
+  handBack(): void {
+    if (this.status.state !== "overridden") return;
+    this.update({ state: "remote" });
+    this.sendStatus();
+  }
+
+  /**
+   * Disconnect the browser in control and draw a new PIN
+   */
+  revoke(): void {
+    const controller = this.controller;
+    if (!controller) return;
+    this.controller = null;
+    this.stopRobot();
+    controller.send(
+      JSON.stringify({ type: "error", message: "Remote control was revoked" })
+    );
+    controller.close();
+    this.update({ state: "waiting", pin: randomPin(), clientAddress: null });
+  }
+
+  private handleOpen(client: WebSocketClient): void {
+    const timeout = setTimeout(() => {
+      this.pending.delete(client);
+      client.close();
+    }, AUTH_TIMEOUT_MS);
+    this.pending.set(client, timeout);
+  }
+
+  private handleMessage(client: WebSocketClient, text: string): void {
+    const message = parseMessage(text);
+    if (!message) return;
+
+    if (this.pending.has(client)) {
+      if (message.type === "auth") this.authenticate(client, message.pin);
+      return;
+    }
+    if (client !== this.controller || this.status.state !== "remote") return;
+
+    switch (message.type) {
+      case "drive":
+        this.forward("joystick", {
+          leftSpeed: clampSpeed(message.left),
+          rightSpeed: clampSpeed(message.right),
+        });
+        this.armDriveTimeout();
+        break;
+      case "stop":
+        this.stopRobot();
+        break;
+      case "gear":
+        this.gear = message.gear === "2" ? "2" : "1";
+        this.forward("gear");
+        break;
+      case "claw":
+        this.clawOpen = message.open === true;
+        this.forward("claw");
+        break;
+    }
+  }
+
+  private handleClose(client: WebSocketClient): void {
+    const timeout = this.pending.get(client);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.pending.delete(client);
+    }
+    if (client === this.controller) {
+      console.log("Remote browser left:", client.address);
+      this.controller = null;
+      this.stopRobot();
+      this.update({ state: "waiting", clientAddress: null });
+    }
+  }
+
+  private authenticate(client: WebSocketClient, pin: unknown): void {
+    clearTimeout(this.pending.get(client));
+    this.pending.delete(client);
+
+    const reject = (message: string) => {
+      client.send(JSON.stringify({ type: "error", message }));
+      client.close();
+    };
+    if (this.status.lockedUntil !== null) {
+      reject("Too many wrong PINs - try again later");
+      return;
+    }
+    if (pin !== this.status.pin) {
+      this.failedAttempts++;
+      if (this.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        this.lockOut();
+        reject("Too many wrong PINs - try again later");
+      } else {
+        reject("Wrong PIN");
+      }
+      return;
+    }
+    if (this.controller) {
+      reject("Another browser is in control");
+      return;
+    }
+
+    console.log("Remote browser in control:", client.address);
+    this.failedAttempts = 0;
+    this.controller = client;
+    this.update({ state: "remote", clientAddress: client.address });
+    this.sendStatus();
+  }
+
+  // Refuse every PIN for a while and draw a new one, so guessing over the
+  // socket gets nowhere
+  private lockOut(): void {
+    console.warn("Relay locked after repeated wrong PINs");
+    this.failedAttempts = 0;
+    this.clearLockout();
+    this.lockoutTimeout = setTimeout(() => {
+      this.lockoutTimeout = null;
+      this.update({ lockedUntil: null });
+    }, LOCKOUT_MS);
+    this.update({ pin: randomPin(), lockedUntil: Date.now() + LOCKOUT_MS });
+  }
+
+  private clearLockout(): void {
+    if (this.lockoutTimeout) {
+      clearTimeout(this.lockoutTimeout);
+      this.lockoutTimeout = null;
+    }
+  }
+
+  private sendStatus(): void {
+    this.controller?.send(
+      JSON.stringify({
+        type: "status",
+        control: this.status.state,
+        robot: this.options.getRobotName(),
+      })
+    );
+  }
+
+  // Stop the robot if the browser stops repeating drive messages
+  private armDriveTimeout(): void {
+    if (this.driveTimeout) clearTimeout(this.driveTimeout);
+    this.driveTimeout = setTimeout(() => {
+      this.driveTimeout = null;
+      console.warn("Remote drive stream went quiet - stopping");
+      this.stopRobot();
+    }, DRIVE_TIMEOUT_MS);
+  }
+
+  private stopRobot(): void {
+    if (this.driveTimeout) {
+      clearTimeout(this.driveTimeout);
+      this.driveTimeout = null;
+    }
+    this.forward("stop");
+  }
+
+  private forward(
+    type: MotorCommand["type"],
+    overrides: Partial<MotorCommand> = {}
+  ): void {
+    this.options.forward({
+      type,
+      leftSpeed: 0,
+      rightSpeed: 0,
+      gear: this.gear,
+      clawOpen: this.clawOpen,
+      timestamp: Date.now(),
+      ...overrides,
+    });
+  }
+
+  private update(changes: Partial<RelayStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.options.onStatus(this.status);
+  }
+}
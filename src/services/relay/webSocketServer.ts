@@ -0,0 +1,278 @@
+import TcpSocket from "react-native-tcp-socket";
+import base64 from "base-64";
+import {
+  binaryStringToBytes,
+  bytesToBinaryString,
+} from "../protocol/binaryProtocol";
+
+type TcpServer = InstanceType<typeof TcpSocket.Server>;
+type TcpClient = InstanceType<typeof TcpSocket.Socket>;
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// Browser commands are tiny; anything larger is not one of ours
+const MAX_REQUEST_BYTES = 8 * 1024;
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// SHA-1 of a Latin-1 string; only needed for the handshake, and Hermes has
+// no crypto module
+function sha1(message: string): Uint8Array {
+  const bytes = binaryStringToBytes(message);
+  const length = bytes.length;
+  const blocks = ((length + 8) >> 6) + 1;
+  const words = new Uint32Array(blocks * 16);
+  for (let i = 0; i < length; i++) {
+    words[i >> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  words[length >> 2] |= 0x80 << (24 - (length % 4) * 8);
+  words[blocks * 16 - 1] = length * 8;
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Uint32Array(80);
+  const rotl = (value: number, bits: number) =>
+    (value << bits) | (value >>> (32 - bits));
+
+  for (let block = 0; block < blocks; block++) {
+    for (let t = 0; t < 80; t++) {
+      w[t] =
+        t < 16
+          ? words[block * 16 + t]
+          : rotl(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+    }
+    let [a, b, c, d, e] = h;
+    for (let t = 0; t < 80; t++) {
+      const [f, k] =
+        t < 20
+          ? [(b & c) | (~b & d), 0x5a827999]
+          : t < 40
+            ? [b ^ c ^ d, 0x6ed9eba1]
+            : t < 60
+              ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+              : [b ^ c ^ d, 0xca62c1d6];
+      const temp = (rotl(a, 5) + f + e + k + w[t]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30) >>> 0;
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+    h[4] = (h[4] + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  h.forEach((value, i) => {
+    digest[i * 4] = value >>> 24;
+    digest[i * 4 + 1] = (value >>> 16) & 0xff;
+    digest[i * 4 + 2] = (value >>> 8) & 0xff;
+    digest[i * 4 + 3] = value & 0xff;
+  });
+  return digest;
+}
+
+// Server frames are never masked
+function encodeFrame(opcode: number, payload: Uint8Array): Uint8Array {
+  const header =
+    payload.length < 126
+      ? Uint8Array.of(0x80 | opcode, payload.length)
+      : Uint8Array.of(
+          0x80 | opcode,
+          126,
+          payload.length >> 8,
+          payload.length & 0xff
+        );
+  const frame = new Uint8Array(header.length + payload.length);
+  frame.set(header);
+  frame.set(payload, header.length);
+  return frame;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
+
+/**
+ * Browser connected through the relay's WebSocket
+ */
+export interface WebSocketClient {
+  readonly address: string;
+  send(text: string): void;
+  close(): void;
+}
+
+export interface WebSocketServerHandlers {
+  page: string; // Served to plain HTTP requests (ASCII only)
+  onOpen: (client: WebSocketClient) => void;
+  onMessage: (client: WebSocketClient, text: string) => void;
+  onClose: (client: WebSocketClient) => void;
+}
+
+/**
+ * Minimal WebSocket server (RFC 6455) on a raw TCP socket
+ * Plain HTTP requests get the control page; upgrade requests become
+ * WebSocket clients. Text messages only, unfragmented, Latin-1.
+ */
+export class WebSocketServer {
+  private server: TcpServer | null = null;
+  private clients = new Set<TcpClient>();
+
+  constructor(private handlers: WebSocketServerHandlers) {}
+
+  start(port: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const server = TcpSocket.createServer((socket) => this.accept(socket));
+      server.once("error", reject);
+      server.listen({ port, host: "0.0.0.0", reuseAddress: true }, () => {
+        server.off("error", reject);
+        server.on("error", (error) => console.warn("Relay error:", error));
+        resolve();
+      });
+      this.server = server;
+    });
+  }
+
+  stop(): void {
+    this.clients.forEach((socket) => socket.destroy());
+    this.clients.clear();
+    this.server?.close();
+    this.server = null;
+  }
+
+  private accept(socket: TcpClient): void {
+    this.clients.add(socket);
+    const address = socket.remoteAddress ?? "unknown";
+    let buffer: Uint8Array = new Uint8Array(0);
+    let client: WebSocketClient | null = null;
+
+    const write = (bytes: Uint8Array) => {
+      if (!socket.destroyed) socket.write(bytes);
+    };
+
+    socket.on("data", (data) => {
+      const chunk =
+        typeof data === "string" ? binaryStringToBytes(data) : data;
+      buffer = concat(buffer, chunk);
+
+      if (!client) {
+        const request = bytesToBinaryString(buffer);
+        const end = request.indexOf("\r\n\r\n");
+        if (end === -1) {
+          if (buffer.length > MAX_REQUEST_BYTES) socket.destroy();
+          return;
+        }
+        buffer = buffer.slice(end + 4);
+        client = this.handshake(socket, request.slice(0, end), address);
+        if (!client) return;
+        this.handlers.onOpen(client);
+      }
+
+      const rest = this.readFrames(buffer, client, write);
+      if (rest) {
+        buffer = rest;
+      } else {
+        buffer = new Uint8Array(0);
+        socket.destroy();
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      this.clients.delete(socket);
+      if (client) this.handlers.onClose(client);
+    });
+  }
+
+  // Answer the HTTP request; returns the client if it upgraded
+  private handshake(
+    socket: TcpClient,
+    request: string,
+    address: string
+  ): WebSocketClient | null {
+    const key = /^sec-websocket-key:\s*(.+)$/im.exec(request)?.[1]?.trim();
+    if (!key) {
+      const { page } = this.handlers;
+      socket.end(
+        "HTTP/1.1 200 OK\r\n" +
+          "Content-Type: text/html; charset=utf-8\r\n" +
+          `Content-Length: ${page.length}\r\n` +
+          "Connection: close\r\n\r\n" +
+          page
+      );
+      return null;
+    }
+
+    const accept = base64.encode(bytesToBinaryString(sha1(key + WS_GUID)));
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    return {
+      address,
+      send: (text) => {
+        if (!socket.destroyed) {
+          socket.write(encodeFrame(OPCODE_TEXT, binaryStringToBytes(text)));
+        }
+      },
+      close: () => {
+        if (!socket.destroyed) {
+          socket.end(encodeFrame(OPCODE_CLOSE, new Uint8Array(0)));
+        }
+      },
+    };
+  }
+
+  // Pull complete client frames off the buffer; returns the unread
+  // remainder, or null if the client broke the protocol
+  private readFrames(
+    buffer: Uint8Array,
+    client: WebSocketClient,
+    write: (bytes: Uint8Array) => void
+  ): Uint8Array | null {
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      // 64-bit lengths are never needed for commands
+      if (length === 127) return null;
+      if (length === 126) {
+        if (buffer.length < 4) break;
+        length = (buffer[2] << 8) | buffer[3];
+        offset = 4;
+      }
+      // Refuse oversized frames before buffering their payload
+      if (length > MAX_MESSAGE_BYTES) return null;
+      // Browsers always mask their frames
+      const maskOffset = offset;
+      offset += 4;
+      if (buffer.length < offset + length) break;
+
+      const payload = buffer.slice(offset, offset + length);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.slice(offset + length);
+
+      if (opcode === OPCODE_TEXT) {
+        this.handlers.onMessage(client, bytesToBinaryString(payload));
+      } else if (opcode === OPCODE_PING) {
+        write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        client.close();
+        return new Uint8Array(0);
+      }
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,203 @@
+import type {
+  BluetoothDevice,
+  FleetRobot,
+  MotorCommand,
+  Transport,
+} from "../types";
+import { createTransport } from "./transports";
+import { getDeviceProfile } from "./deviceProfiles";
+import {
+  createCommandEncoder,
+  isTelemetryStale,
+  LEGACY_FIRMWARE,
+  legacyFirmwareInfo,
+  parseTelemetry,
+  ReliableSender,
+  requestFirmwareInfo,
+  selectCommandFormat,
+} from "./protocol";
+import { CommandScheduler, DEFAULT_SEND_RATE_HZ } from "./commandScheduler";
+import { LinkMonitor } from "./linkMonitor";
+import { ConnectionError } from "./connectionError";
+
+// How often telemetry freshness is re-evaluated
+const STALE_CHECK_INTERVAL_MS = 500;
+
+/**
+ * Connection to one fleet robot, on a transport of its own
+ * Runs the same handshake, heartbeat and telemetry parsing as the main link
+ * and reports every change as a FleetRobot snapshot. Fleet robots are not
+ * reconnected automatically; a dropped robot stays listed until removed.
+ */
+export class RobotLink {
+  private readonly transport: Transport;
+  private sender: ReliableSender | null = null;
+  private scheduler: CommandScheduler | null = null;
+  private sendRateHz = DEFAULT_SEND_RATE_HZ;
+  private monitor: LinkMonitor | null = null;
+  private staleInterval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribes: (() => void)[] = [];
+  private status: FleetRobot;
+
+  constructor(
+    device: BluetoothDevice,
+    private onChange: (robot: FleetRobot) => void
+  ) {
+    this.transport = createTransport(device.transport);
+    this.status = {
+      device,
+      state: "disconnected",
+      firmware: null,
+      telemetry: null,
+      telemetryStale: true,
+      linkLost: false,
+      error: null,
+    };
+
+    this.unsubscribes.push(
+      this.transport.onStateChange((state) => {
+        if (state === "disconnected") this.closeSession();
+        this.update({ state });
+      }),
+      // Telemetry only; other traffic (ACKs, heartbeats) is ignored here
+      this.transport.subscribe((data) => {
+        const telemetry = parseTelemetry(data);
+        if (telemetry) this.update({ telemetry, telemetryStale: false });
+      })
+    );
+  }
+
+  getStatus(): FleetRobot {
+    return this.status;
+  }
+
+  /**
+   * Connect and handshake; the robot is usable once firmware is set
+   */
+  async connect(): Promise<boolean> {
+    const { device } = this.status;
+    this.update({ error: null });
+
+    const success = await this.transport.connect(device.id).catch(() => false);
+    if (!success) {
+      this.update({
+        error:
+          this.transport.getLastError() ??
+          new ConnectionError("unknown", "Connection failed"),
+      });
+      return false;
+    }
+
+    const profile = getDeviceProfile(device.profileId);
+    const firmware = await requestFirmwareInfo(
+      this.transport,
+      profile ? legacyFirmwareInfo(profile.protocol) : LEGACY_FIRMWARE
+    );
+    if (this.transport.getState() !== "connected") return false;
+
+    const sender = new ReliableSender(
+      this.transport,
+      createCommandEncoder(selectCommandFormat(firmware))
+    );
+    // Same send path as the main link: joystick updates coalesce, stop and
+    // brake preempt
+    this.sender = sender;
+    this.scheduler = new CommandScheduler((command) => {
+      const sent =
+        typeof command === "string"
+          ? this.transport.write(command)
+          : sender.send(command);
+      sent.catch(console.error);
+    });
+    this.scheduler.setRate(this.sendRateHz);
+    this.scheduler.start();
+    if (firmware.features.includes("heartbeat")) {
+      this.monitor = new LinkMonitor(this.transport, {
+        onLinkLost: () => this.update({ linkLost: true }),
+        onLinkRestored: () => this.update({ linkLost: false }),
+      });
+      this.monitor.start();
+    }
+    this.staleInterval = setInterval(() => {
+      const telemetryStale = isTelemetryStale(this.status.telemetry);
+      if (telemetryStale !== this.status.telemetryStale) {
+        this.update({ telemetryStale });
+      }
+    }, STALE_CHECK_INTERVAL_MS);
+
+    this.update({
+      device: { ...device, isConnected: true, lastConnected: new Date() },
+      firmware,
+    });
+    return true;
+  }
+
+  /**
+   * Raw text, for character-protocol commands with no MotorCommand form
+   */
+  async sendCommand(command: string): Promise<void> {
+    if (!this.scheduler) {
+      console.warn("Fleet robot not connected:", this.status.device.name);
+      return;
+    }
+    this.scheduler.enqueue(command);
+  }
+
+  /**
+   * Encoded in the firmware's preferred format (acked where supported)
+   */
+  async sendMotorCommand(command: MotorCommand): Promise<void> {
+    if (!this.scheduler) {
+      console.warn("Fleet robot not connected:", this.status.device.name);
+      return;
+    }
+    this.scheduler.enqueue(command);
+  }
+
+  /**
+   * How many commands per second are sent (the main link's tuned rate)
+   */
+  setSendRate(hz: number): void {
+    this.sendRateHz = hz;
+    this.scheduler?.setRate(hz);
+  }
+
+  /**
+   * Drop the connection and stop reporting changes
+   * The transport is not destroyed: BLE transports share the native manager
+   * with the main link.
+   */
+  async disconnect(): Promise<void> {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    this.closeSession();
+    await this.transport.disconnect();
+  }
+
+  // Per-connection helpers; telemetry and firmware go with them
+  private closeSession(): void {
+    this.scheduler?.stop();
+    this.scheduler = null;
+    this.sender?.dispose();
+    this.sender = null;
+    this.monitor?.stop();
+    this.monitor = null;
+    if (this.staleInterval) {
+      clearInterval(this.staleInterval);
+      this.staleInterval = null;
+    }
+    this.status = {
+      ...this.status,
+      device: { ...this.status.device, isConnected: false },
+      firmware: null,
+      telemetry: null,
+      telemetryStale: true,
+      linkLost: false,
+    };
+  }
+
+  private update(changes: Partial<FleetRobot>): void {
+    this.status = { ...this.status, ...changes };
+    this.onChange(this.status);
+  }
+}
@@ -0,0 +1,36 @@
+import { File, Paths } from "expo-file-system";
+import type { KnownRobot } from "../types";
+
+const STORAGE_FILE = "known-robots.json";
+
+// Persists remembered robots as JSON in the app's document directory
+export class RobotStorage {
+  private static file(): File {
+    return new File(Paths.document, STORAGE_FILE);
+  }
+
+  // Load remembered robots in the user's order (empty on first launch)
+  static async load(): Promise<KnownRobot[]> {
+    try {
+      const file = RobotStorage.file();
+      if (!file.exists) return [];
+      const robots = JSON.parse(await file.text());
+      return Array.isArray(robots) ? robots : [];
+    } catch (error) {
+      console.warn("Failed to load known robots:", error);
+      return [];
+    }
+  }
+
+  static async save(robots: KnownRobot[]): Promise<void> {
+    try {
+      const file = RobotStorage.file();
+      if (!file.exists) {
+        file.create();
+      }
+      file.write(JSON.stringify(robots));
+    } catch (error) {
+      console.warn("Failed to save known robots:", error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import type { TrafficEntry } from "../types";
+
+// Entries kept; at 20 Hz plus telemetry this is roughly the last 15 seconds
+export const TRAFFIC_LOG_CAPACITY = 500;
+
+/**
+ * Fixed-size ring buffer of every frame sent to or received from the robot
+ * Transports record into the shared instance; the inspector reads it
+ */
+export class TrafficLog {
+  private buffer: (TrafficEntry | undefined)[];
+  private start = 0; // Index of the oldest entry
+  private size = 0;
+  private nextId = 1;
+
+  constructor(private capacity: number = TRAFFIC_LOG_CAPACITY) {
+    this.buffer = new Array(capacity);
+  }
+
+  record(entry: Omit<TrafficEntry, "id">): TrafficEntry {
+    const recorded = { ...entry, id: this.nextId++ };
+    const index = (this.start + this.size) % this.capacity;
+    this.buffer[index] = recorded;
+    if (this.size < this.capacity) {
+      this.size++;
+    } else {
+      // Full: overwrite the oldest
+      this.start = (this.start + 1) % this.capacity;
+    }
+    return recorded;
+  }
+
+  // Oldest first
+  getEntries(): TrafficEntry[] {
+    const entries: TrafficEntry[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const entry = this.buffer[(this.start + i) % this.capacity];
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  // Id of the newest entry, 0 when empty (cheap change check for viewers)
+  getLastId(): number {
+    return this.size > 0 ? this.nextId - 1 : 0;
+  }
+
+  clear(): void {
+    this.buffer = new Array(this.capacity);
+    this.start = 0;
+    this.size = 0;
+  }
+}
+
+export const trafficLog = new TrafficLog();
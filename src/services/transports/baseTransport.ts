@@ -0,0 +1,135 @@
+import type {
+  AdapterState,
+  BluetoothDevice,
+  BluetoothState,
+  ConnectionPriority,
+  Transport,
+  TransportKind,
+  WriteMode,
+} from "../../types";
+import type { ConnectionError } from "../connectionError";
+import { bytesToBinaryString } from "../protocol/binaryProtocol";
+import { trafficLog } from "../trafficLog";
+
+/**
+ * Shared listener bookkeeping for transport implementations
+ * Subclasses only deal with the native link and call setState/emitData
+ * Every frame written or emitted here is recorded in the traffic log
+ */
+export abstract class BaseTransport implements Transport {
+  abstract readonly kind: TransportKind;
+  abstract readonly label: string;
+
+  private state: BluetoothState = "disconnected";
+  private lastError: ConnectionError | null = null;
+  private stateListeners = new Set<(state: BluetoothState) => void>();
+  private dataListeners = new Set<(data: string) => void>();
+
+  abstract scan(
+    onDeviceFound: (device: BluetoothDevice) => void,
+    durationMs?: number
+  ): Promise<void>;
+  abstract stopScan(): void;
+  abstract getAdapterState(): Promise<AdapterState>;
+  abstract readRssi(): Promise<number | null>;
+  abstract setConnectionPriority(priority: ConnectionPriority): Promise<void>;
+  abstract connect(deviceId: string): Promise<boolean>;
+  abstract disconnect(): Promise<void>;
+  abstract destroy(): Promise<void>;
+
+  // Send one frame over the native link; resolves with how it went out, or
+  // null when nothing was sent because no device is connected
+  protected abstract writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null>;
+
+  getState(): BluetoothState {
+    return this.state;
+  }
+
+  getLastError(): ConnectionError | null {
+    return this.lastError;
+  }
+
+  onStateChange(listener: (state: BluetoothState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  subscribe(listener: (data: string) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send text or a binary frame, timing it for the traffic log
+   */
+  async write(data: string | Uint8Array): Promise<void> {
+    const timestamp = Date.now();
+    const frame = typeof data === "string" ? data : bytesToBinaryString(data);
+    try {
+      const writeMode = await this.writeData(data);
+      if (writeMode === null) return;
+      trafficLog.record({
+        timestamp,
+        direction: "out",
+        transport: this.kind,
+        data: frame,
+        writeMode,
+        durationMs: Date.now() - timestamp,
+        error: null,
+      });
+    } catch (error) {
+      trafficLog.record({
+        timestamp,
+        direction: "out",
+        transport: this.kind,
+        data: frame,
+        writeMode: null,
+        durationMs: Date.now() - timestamp,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  // Update connection state and notify listeners on change
+  protected setState(state: BluetoothState): void {
+    if (state === "connected") {
+      this.lastError = null;
+    }
+    if (state === this.state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  // Record why connecting failed and report the error state
+  protected fail(error: ConnectionError): void {
+    this.lastError = error;
+    this.setState("error");
+  }
+
+  // Forward incoming data to all subscribers
+  protected emitData(data: string): void {
+    trafficLog.record({
+      timestamp: Date.now(),
+      direction: "in",
+      transport: this.kind,
+      data,
+      writeMode: null,
+      durationMs: null,
+      error: null,
+    });
+    this.dataListeners.forEach((listener) => listener(data));
+  }
+
+  // Drop all listeners (used on destroy)
+  protected clearListeners(): void {
+    this.stateListeners.clear();
+    this.dataListeners.clear();
+  }
+}
@@ -0,0 +1,556 @@
+import { Platform } from "react-native";
+import {
+  BleError,
+  BleErrorCode,
+  BleManager,
+  Characteristic,
+  ConnectionPriority as BleConnectionPriority,
+  Device,
+  State,
+  Subscription,
+} from "react-native-ble-plx";
+import base64 from "base-64";
+import type {
+  AdapterState,
+  BluetoothDevice,
+  ConnectionErrorReason,
+  ConnectionPriority,
+  DeviceProfile,
+  GattService,
+  WriteMode,
+} from "../../types";
+import { bytesToBinaryString } from "../protocol/binaryProtocol";
+import { ConnectionError, toConnectionError } from "../connectionError";
+import { ReadinessService } from "../readinessService";
+import {
+  DEFAULT_PROFILE,
+  DEVICE_PROFILES,
+  detectProfile,
+  matchesName,
+  normalizeUUID,
+} from "../deviceProfiles";
+import { BaseTransport } from "./baseTransport";
+
+export interface BleTransportOptions {
+  profile?: DeviceProfile | null; // Fixed profile; auto-detect when omitted
+}
+
+// ble-plx failures the UI can explain; anything else is "unknown"
+const BLE_ERROR_REASONS: Partial<Record<BleErrorCode, ConnectionErrorReason>> =
+  {
+    [BleErrorCode.BluetoothPoweredOff]: "bluetoothOff",
+    [BleErrorCode.BluetoothUnauthorized]: "permissionDenied",
+    [BleErrorCode.LocationServicesDisabled]: "locationOff",
+    [BleErrorCode.OperationTimedOut]: "timeout",
+    [BleErrorCode.DeviceNotFound]: "deviceNotFound",
+    [BleErrorCode.ServiceNotFound]: "serviceMissing",
+    [BleErrorCode.CharacteristicNotFound]: "characteristicMissing",
+  };
+
+// The manager reports "Unknown" briefly after start-up; wait this long
+const ADAPTER_STATE_TIMEOUT_MS = 2000;
+
+const ADAPTER_STATES: Partial<Record<State, AdapterState>> = {
+  [State.PoweredOn]: "poweredOn",
+  [State.PoweredOff]: "poweredOff",
+  [State.Unauthorized]: "unauthorized",
+  [State.Unsupported]: "unsupported",
+};
+
+const CONNECTION_PRIORITIES: Record<ConnectionPriority, BleConnectionPriority> =
+  {
+    high: BleConnectionPriority.High,
+    balanced: BleConnectionPriority.Balanced,
+    lowPower: BleConnectionPriority.LowPower,
+  };
+
+// Requested while driving so JSON commands fit in a single packet
+const DRIVING_MTU = 247;
+
+function toBleConnectionError(error: unknown): ConnectionError {
+  const reason =
+    error instanceof BleError ? BLE_ERROR_REASONS[error.errorCode] : undefined;
+  return toConnectionError(error, reason);
+}
+
+/**
+ * Bluetooth Low Energy transport (react-native-ble-plx)
+ * Writes and notifications go through a single service/characteristic pair
+ */
+export class BleTransport extends BaseTransport {
+  readonly kind = "ble" as const;
+  readonly label = "Bluetooth LE";
+
+  private bleManager: BleManager;
+  private device: Device | null = null;
+  private scanTimeout: ReturnType<typeof setTimeout> | null = null;
+  private disconnectSubscription: Subscription | null = null;
+  private monitorSubscription: Subscription | null = null;
+  private telemetrySubscription: Subscription | null = null;
+  private fixedProfile: DeviceProfile | null;
+  // Profile of the connected device, and guesses from the last scan
+  private profile: DeviceProfile = DEFAULT_PROFILE;
+  private scannedProfiles = new Map<string, DeviceProfile>();
+
+  constructor(options: BleTransportOptions = {}) {
+    super();
+    this.fixedProfile = options.profile ?? null;
+
+    console.log("Initializing BLE Manager...");
+    this.bleManager = new BleManager({
+      restoreStateIdentifier: "beetlebot-ble-manager",
+      restoreStateFunction: (restoredState) => {
+        console.log("BLE state restored:", restoredState);
+      },
+    });
+  }
+
+  /**
+   * Use a fixed device profile, or null to auto-detect per device
+   */
+  setProfile(profile: DeviceProfile | null): void {
+    this.fixedProfile = profile;
+    this.scannedProfiles.clear();
+  }
+
+  // Profile of the connected (or last connected) device
+  getProfile(): DeviceProfile {
+    return this.profile;
+  }
+
+  /**
+   * Start BLE device scan, reporting devices that match a profile
+   */
+  async scan(
+    onDeviceFound: (device: BluetoothDevice) => void,
+    durationMs: number = 30000
+  ): Promise<void> {
+    // Permissions, location services and adapter power
+    await ReadinessService.ensureReady(this);
+
+    // Stop any existing scan
+    this.stopScan();
+
+    console.log("Starting BLE device scan...");
+    console.log("Platform:", Platform.OS, "Version:", Platform.Version);
+
+    await new Promise<void>((resolve, reject) => {
+      this.bleManager.startDeviceScan(
+        null, // Service UUIDs filter (null = all devices)
+        {
+          allowDuplicates: true, // Allow seeing same device multiple times
+          scanMode: 2, // SCAN_MODE_LOW_LATENCY (most aggressive)
+          callbackType: 1, // CALLBACK_TYPE_ALL_MATCHES
+          legacyScan: true, // Use legacy scan mode for better compatibility
+        },
+        (error, scannedDevice) => {
+          if (error) {
+            console.error("Scan error:", error);
+            this.stopScan();
+            reject(toBleConnectionError(error));
+            return;
+          }
+
+          // Collect only named devices that look like one of our robots
+          const name = scannedDevice?.name || scannedDevice?.localName;
+          if (!scannedDevice || !name) return;
+          const profile = this.matchProfile(name, scannedDevice.serviceUUIDs);
+          if (!profile) return;
+          this.scannedProfiles.set(scannedDevice.id, profile);
+
+          onDeviceFound({
+            id: scannedDevice.id,
+            name,
+            address: scannedDevice.id,
+            isConnected: false,
+            lastConnected: null,
+            signalStrength: scannedDevice.rssi ?? -100,
+            transport: this.kind,
+            profileId: profile.id,
+          });
+        }
+      );
+
+      // Auto-stop scan after the requested duration
+      this.scanTimeout = setTimeout(() => {
+        console.log("Scan timeout - stopping scan");
+        this.stopScan();
+        resolve();
+      }, durationMs);
+    });
+  }
+
+  /**
+   * Adapter power state, waiting out the initial "Unknown"/"Resetting"
+   */
+  getAdapterState(): Promise<AdapterState> {
+    return new Promise<AdapterState>((resolve) => {
+      const finish = (state: State) => {
+        clearTimeout(timeout);
+        subscription.remove();
+        resolve(ADAPTER_STATES[state] ?? "unknown");
+      };
+      const timeout = setTimeout(
+        () =>
+          this.bleManager
+            .state()
+            .then(finish, () => finish(State.Unknown)),
+        ADAPTER_STATE_TIMEOUT_MS
+      );
+      const subscription = this.bleManager.onStateChange((state) => {
+        if (state !== State.Unknown && state !== State.Resetting) {
+          finish(state);
+        }
+      }, true);
+    });
+  }
+
+  async readRssi(): Promise<number | null> {
+    const currentDevice = this.device;
+    if (!currentDevice) return null;
+    const updated = await currentDevice.readRSSI();
+    return updated.rssi;
+  }
+
+  /**
+   * Request a connection interval (Android only; iOS picks its own) and,
+   * for high priority, a larger MTU if the link negotiated a small one
+   */
+  async setConnectionPriority(priority: ConnectionPriority): Promise<void> {
+    const currentDevice = this.device;
+    if (!currentDevice || Platform.OS !== "android") return;
+
+    try {
+      await currentDevice.requestConnectionPriority(
+        CONNECTION_PRIORITIES[priority]
+      );
+      if (priority === "high" && (currentDevice.mtu ?? 0) < DRIVING_MTU) {
+        const updated = await currentDevice.requestMTU(DRIVING_MTU);
+        console.log("BLE MTU:", updated.mtu);
+      }
+    } catch (error) {
+      console.warn("Failed to set connection priority:", error);
+    }
+  }
+
+  stopScan(): void {
+    if (this.scanTimeout) {
+      clearTimeout(this.scanTimeout);
+      this.scanTimeout = null;
+    }
+    this.bleManager.stopDeviceScan();
+  }
+
+  /**
+   * Connect to BLE device and discover services/characteristics
+   */
+  async connect(deviceId: string): Promise<boolean> {
+    // Linked but not yet adopted; released if setup fails after connecting
+    let linked: Device | null = null;
+    try {
+      this.stopScan();
+      await ReadinessService.ensureReady(this);
+      this.setState("connecting");
+
+      const guess =
+        this.fixedProfile ?? this.scannedProfiles.get(deviceId) ?? null;
+      const connectedDevice = await this.bleManager.connectToDevice(deviceId, {
+        timeout: 10000,
+        requestMTU: (guess ?? DEFAULT_PROFILE).mtu,
+      });
+      linked = connectedDevice;
+
+      // Discover all available services and characteristics
+      this.setState("discovering");
+      await connectedDevice.discoverAllServicesAndCharacteristics();
+      this.profile = await this.resolveProfile(connectedDevice, guess);
+      console.log("BLE profile:", this.profile.name);
+
+      this.device = connectedDevice;
+      this.disconnectSubscription = connectedDevice.onDisconnected(() => {
+        console.log("BLE device disconnected:", deviceId);
+        this.handleLinkClosed();
+      });
+      this.startMonitoring(connectedDevice);
+
+      this.setState("connected");
+      return true;
+    } catch (error) {
+      console.error("Connection error:", error);
+      this.handleLinkClosed();
+      // e.g. no matching profile: the device is linked but unusable
+      if (linked) {
+        await this.releaseConnection(linked.id);
+      }
+      this.fail(toBleConnectionError(error));
+      return false;
+    }
+  }
+
+  /**
+   * Disconnect from currently connected BLE device
+   */
+  async disconnect(): Promise<void> {
+    const current = this.device;
+    this.handleLinkClosed();
+
+    if (current) {
+      try {
+        await this.bleManager.cancelDeviceConnection(current.id);
+      } catch (error) {
+        console.error("Disconnect error:", error);
+      }
+    }
+  }
+
+  /**
+   * Send text or a binary frame to the ESP32 (base64 encoded for BLE)
+   */
+  protected async writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null> {
+    const currentDevice = this.device;
+    if (!currentDevice) {
+      console.warn("No device connected");
+      return null;
+    }
+
+    const encoded = base64.encode(
+      typeof data === "string" ? data : bytesToBinaryString(data)
+    );
+
+    // Try write with response first (more reliable), fallback to without response
+    try {
+      await currentDevice.writeCharacteristicWithResponseForService(
+        this.profile.serviceUUID,
+        this.profile.characteristicUUID,
+        encoded
+      );
+      return "withResponse";
+    } catch {
+      await currentDevice.writeCharacteristicWithoutResponseForService(
+        this.profile.serviceUUID,
+        this.profile.characteristicUUID,
+        encoded
+      );
+      return "withoutResponse";
+    }
+  }
+
+  /**
+   * Every service and characteristic of the connected device
+   */
+  async getGattServices(): Promise<GattService[]> {
+    const device = this.requireDevice();
+    const services = await device.services();
+    return Promise.all(
+      services.map(async (service) => ({
+        uuid: service.uuid,
+        characteristics: (await service.characteristics()).map(
+          (characteristic) => ({
+            uuid: characteristic.uuid,
+            serviceUUID: service.uuid,
+            isReadable: characteristic.isReadable,
+            isWritableWithResponse: characteristic.isWritableWithResponse,
+            isWritableWithoutResponse: characteristic.isWritableWithoutResponse,
+            isNotifiable: characteristic.isNotifiable,
+            isIndicatable: characteristic.isIndicatable,
+          })
+        ),
+      }))
+    );
+  }
+
+  // Read any characteristic; the value is returned as a Latin-1 string
+  async readCharacteristic(
+    serviceUUID: string,
+    characteristicUUID: string
+  ): Promise<string> {
+    const device = this.requireDevice();
+    const characteristic = await device.readCharacteristicForService(
+      serviceUUID,
+      characteristicUUID
+    );
+    return characteristic.value ? base64.decode(characteristic.value) : "";
+  }
+
+  async writeCharacteristic(
+    serviceUUID: string,
+    characteristicUUID: string,
+    data: Uint8Array,
+    withResponse: boolean = true
+  ): Promise<void> {
+    const device = this.requireDevice();
+    const encoded = base64.encode(bytesToBinaryString(data));
+    if (withResponse) {
+      await device.writeCharacteristicWithResponseForService(
+        serviceUUID,
+        characteristicUUID,
+        encoded
+      );
+    } else {
+      await device.writeCharacteristicWithoutResponseForService(
+        serviceUUID,
+        characteristicUUID,
+        encoded
+      );
+    }
+  }
+
+  /**
+   * Subscribe to notifications of any characteristic
+   * Note: on Android, removing a second monitor of the command characteristic
+   * also stops the transport's own subscription until reconnecting
+   */
+  monitorCharacteristic(
+    serviceUUID: string,
+    characteristicUUID: string,
+    onValue: (data: string) => void,
+    onError?: (error: BleError) => void
+  ): () => void {
+    const subscription = this.requireDevice().monitorCharacteristicForService(
+      serviceUUID,
+      characteristicUUID,
+      (error, characteristic) => {
+        if (error) {
+          onError?.(error);
+        } else if (characteristic?.value) {
+          onValue(base64.decode(characteristic.value));
+        }
+      }
+    );
+    return () => subscription.remove();
+  }
+
+  async destroy(): Promise<void> {
+    await this.disconnect();
+    this.clearListeners();
+    console.log("Destroying BLE Manager...");
+    this.bleManager.destroy();
+  }
+
+  private requireDevice(): Device {
+    if (!this.device) {
+      throw new ConnectionError("deviceNotFound", "No device connected");
+    }
+    return this.device;
+  }
+
+  // Forward command and telemetry notifications to subscribers
+  private startMonitoring(device: Device): void {
+    const forward = (
+      error: BleError | null,
+      characteristic: Characteristic | null
+    ) => {
+      if (error) {
+        // Raised when the link drops, notify is unsupported or the
+        // firmware has no telemetry characteristic
+        return;
+      }
+      if (characteristic?.value) {
+        this.emitData(base64.decode(characteristic.value));
+      }
+    };
+
+    const { serviceUUID, characteristicUUID, telemetryCharacteristicUUID } =
+      this.profile;
+    this.monitorSubscription = device.monitorCharacteristicForService(
+      serviceUUID,
+      characteristicUUID,
+      forward
+    );
+    if (telemetryCharacteristicUUID) {
+      this.telemetrySubscription = device.monitorCharacteristicForService(
+        serviceUUID,
+        telemetryCharacteristicUUID,
+        forward
+      );
+    }
+  }
+
+  // Fixed profile, else any profile matching the name and advertised services
+  private matchProfile(
+    name: string,
+    serviceUUIDs: string[] | null
+  ): DeviceProfile | null {
+    if (this.fixedProfile) {
+      return matchesName(this.fixedProfile, name) ? this.fixedProfile : null;
+    }
+    return (
+      detectProfile(serviceUUIDs, name) ??
+      DEVICE_PROFILES.find(
+        (profile) =>
+          profile.namePrefix !== undefined && matchesName(profile, name)
+      ) ??
+      null
+    );
+  }
+
+  // Confirm the profile against the services the device actually exposes
+  private async resolveProfile(
+    device: Device,
+    guess: DeviceProfile | null
+  ): Promise<DeviceProfile> {
+    const services = await device.services();
+    const uuids = services.map((service) => normalizeUUID(service.uuid));
+
+    const hasService = (candidate: DeviceProfile) =>
+      uuids.includes(normalizeUUID(candidate.serviceUUID));
+    const expected = this.fixedProfile ?? guess;
+    const profile = this.fixedProfile
+      ? this.fixedProfile
+      : guess && hasService(guess)
+        ? guess
+        : detectProfile(uuids);
+    if (!profile || !hasService(profile)) {
+      throw new ConnectionError(
+        "serviceMissing",
+        `Device has no ${expected?.name ?? "BeetleBot"} service`
+      );
+    }
+
+    // The command characteristic is required; telemetry is optional
+    const characteristics = await device
+      .characteristicsForService(profile.serviceUUID)
+      .catch(() => []);
+    const hasCommandCharacteristic = characteristics.some(
+      (characteristic) =>
+        normalizeUUID(characteristic.uuid) ===
+        normalizeUUID(profile.characteristicUUID)
+    );
+    if (!hasCommandCharacteristic) {
+      throw new ConnectionError(
+        "characteristicMissing",
+        `Device has no ${profile.name} command characteristic`
+      );
+    }
+    return profile;
+  }
+
+  // Cancel a connection that failed setup and check that it is really gone
+  private async releaseConnection(deviceId: string): Promise<void> {
+    try {
+      await this.bleManager.cancelDeviceConnection(deviceId);
+    } catch (error) {
+      console.warn("Failed to cancel connection:", error);
+    }
+    const stillConnected = await this.bleManager
+      .isDeviceConnected(deviceId)
+      .catch(() => false);
+    if (stillConnected) {
+      console.error("Device still connected after failed setup:", deviceId);
+    }
+  }
+
+  // Release per-connection subscriptions and reset state
+  private handleLinkClosed(): void {
+    this.monitorSubscription?.remove();
+    this.monitorSubscription = null;
+    this.telemetrySubscription?.remove();
+    this.telemetrySubscription = null;
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+    this.device = null;
+    this.setState("disconnected");
+  }
+}
@@ -0,0 +1,275 @@
+import RNBluetoothClassic, {
+  BluetoothDevice as ClassicDevice,
+  BluetoothEventSubscription,
+} from "react-native-bluetooth-classic";
+import { Platform } from "react-native";
+import base64 from "base-64";
+import type {
+  AdapterState,
+  BluetoothDevice,
+  WriteMode,
+} from "../../types";
+import {
+  binaryStringToBytes,
+  bytesToBinaryString,
+  MessageSplitter,
+} from "../protocol/binaryProtocol";
+import { ConnectionError, toConnectionError } from "../connectionError";
+import { ReadinessService } from "../readinessService";
+import { BaseTransport } from "./baseTransport";
+
+/**
+ * Bluetooth Classic (SPP/RFCOMM) transport (react-native-bluetooth-classic)
+ * Messages are newline delimited, as expected by Arduino Serial
+ * On Android the socket is read as raw bytes and split into text lines and
+ * binary frames here, so ACK frames containing 0x0A or non-UTF-8 bytes
+ * arrive intact. The library's iOS side only offers delimited text.
+ */
+export class ClassicTransport extends BaseTransport {
+  readonly kind = "classic" as const;
+  readonly label = "Bluetooth Classic";
+
+  private device: ClassicDevice | null = null;
+  private discovered = new Map<string, ClassicDevice>();
+  private dataSubscription: BluetoothEventSubscription | null = null;
+  private disconnectSubscription: BluetoothEventSubscription | null = null;
+  private splitter = new MessageSplitter();
+  private readonly readRaw = Platform.OS === "android";
+
+  /**
+   * List bonded devices, then run discovery for unpaired ones
+   */
+  async scan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
+    // Permissions, location services and adapter power
+    await ReadinessService.ensureReady(this);
+
+    this.discovered.clear();
+
+    const report = (dev: ClassicDevice) => {
+      this.discovered.set(dev.address, dev);
+      onDeviceFound({
+        id: dev.address,
+        name: dev.name || dev.address,
+        address: dev.address,
+        isConnected: false,
+        lastConnected: null,
+        signalStrength: -100, // RFCOMM discovery does not report RSSI
+        transport: this.kind,
+      });
+    };
+
+    // Get bonded (paired) devices
+    const bonded = await RNBluetoothClassic.getBondedDevices();
+    console.log("Bonded devices:", bonded.length);
+    bonded.forEach(report);
+
+    // Start discovery for new devices
+    const unpaired = await RNBluetoothClassic.startDiscovery();
+    console.log("Discovered unpaired devices:", unpaired.length);
+    unpaired.forEach(report);
+  }
+
+  // Classic has no authorization state of its own; permissions cover it
+  async getAdapterState(): Promise<AdapterState> {
+    try {
+      const available = await RNBluetoothClassic.isBluetoothAvailable();
+      if (!available) return "unsupported";
+      const enabled = await RNBluetoothClassic.isBluetoothEnabled();
+      return enabled ? "poweredOn" : "poweredOff";
+    } catch (error) {
+      console.warn("Classic adapter check failed:", error);
+      return "unsupported";
+    }
+  }
+
+  // Only reported during discovery; the open socket has no RSSI query
+  async readRssi(): Promise<number | null> {
+    return null;
+  }
+
+  // The SPP socket has no connection interval to tune
+  async setConnectionPriority(): Promise<void> {}
+
+  stopScan(): void {
+    RNBluetoothClassic.cancelDiscovery().catch(() => undefined);
+  }
+
+  /**
+   * Pair if needed, then open an RFCOMM connection (3 attempts)
+   */
+  async connect(deviceId: string): Promise<boolean> {
+    try {
+      this.stopScan();
+      await ReadinessService.ensureReady(this);
+      this.setState("connecting");
+
+      let deviceToConnect =
+        this.discovered.get(deviceId) ??
+        (await RNBluetoothClassic.getBondedDevices()).find(
+          (d) => d.address === deviceId
+        );
+      if (!deviceToConnect) {
+        throw new ConnectionError(
+          "deviceNotFound",
+          `Unknown device: ${deviceId}`
+        );
+      }
+
+      console.log(
+        "Connecting to:",
+        deviceToConnect.name,
+        deviceToConnect.address
+      );
+
+      // If not bonded, try to pair first
+      if (!deviceToConnect.bonded) {
+        console.log("Device not paired, attempting to pair...");
+        try {
+          const paired = await RNBluetoothClassic.pairDevice(deviceId);
+          if (paired) {
+            console.log("✓ Successfully paired with device");
+            // Wait a moment for the pairing to stabilize
+            await new Promise((resolve) => setTimeout(resolve, 3000));
+
+            // Re-fetch device to get updated bonded status
+            const bondedDevices = await RNBluetoothClassic.getBondedDevices();
+            const updatedDevice = bondedDevices.find(
+              (d) => d.address === deviceId
+            );
+            if (updatedDevice) {
+              deviceToConnect = updatedDevice;
+            }
+          } else {
+            console.warn("Pairing failed, trying to connect anyway...");
+          }
+        } catch (pairError) {
+          console.warn("Pairing error:", pairError);
+        }
+      }
+
+      // Retry connection up to 3 times
+      let connected = false;
+      let lastError: unknown = null;
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          console.log(`Connection attempt ${attempt}/3...`);
+
+          if (this.readRaw) {
+            // Library delivers the bytes base64 encoded, without delimiting
+            connected = await deviceToConnect.connect({
+              connectorType: "rfcomm",
+              connectionType: "binary",
+            });
+          } else if (attempt === 1) {
+            // Try simple connection first (some modules don't like options)
+            connected = await deviceToConnect.connect();
+          } else {
+            connected = await deviceToConnect.connect({
+              connectorType: "rfcomm",
+              DELIMITER: "\n",
+              DEVICE_CHARSET: "utf-8",
+            });
+          }
+
+          if (connected) break;
+        } catch (connError) {
+          lastError = connError;
+          console.warn(`Attempt ${attempt} failed:`, connError);
+
+          if (attempt < 3) {
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+          }
+        }
+      }
+
+      if (!connected) {
+        throw (
+          lastError || new Error("Failed to connect to device after 3 attempts")
+        );
+      }
+
+      this.device = deviceToConnect;
+      this.splitter.reset();
+      this.dataSubscription = deviceToConnect.onDataReceived((event) => {
+        if (this.readRaw) {
+          const bytes = binaryStringToBytes(base64.decode(event.data));
+          this.splitter.push(bytes).forEach((message) => this.emitData(message));
+        } else {
+          this.emitData(event.data);
+        }
+      });
+      this.disconnectSubscription = RNBluetoothClassic.onDeviceDisconnected(
+        (event) => {
+          if (event.device.address === deviceId) {
+            console.log("Classic device disconnected:", deviceId);
+            this.handleLinkClosed();
+          }
+        }
+      );
+
+      this.setState("connected");
+      return true;
+    } catch (error) {
+      console.error("Connection error:", error);
+      this.handleLinkClosed();
+      this.fail(toConnectionError(error));
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const current = this.device;
+    this.handleLinkClosed();
+
+    if (current) {
+      try {
+        await current.disconnect();
+        console.log("Disconnected from device");
+      } catch (error) {
+        console.error("Disconnect error:", error);
+      }
+    }
+  }
+
+  /**
+   * Send text followed by newline (common for Arduino Serial)
+   * Binary frames are self-delimiting and go out as-is
+   */
+  protected async writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null> {
+    const currentDevice = this.device;
+    if (!currentDevice) {
+      console.warn("No device connected");
+      return null;
+    }
+
+    const success =
+      typeof data === "string"
+        ? await currentDevice.write(data + "\n")
+        : await currentDevice.write(
+            base64.encode(bytesToBinaryString(data)),
+            "base64"
+          );
+    if (!success) {
+      throw new Error("Failed to send command");
+    }
+    return "stream";
+  }
+
+  async destroy(): Promise<void> {
+    await this.disconnect();
+    this.clearListeners();
+  }
+
+  // Release per-connection subscriptions and reset state
+  private handleLinkClosed(): void {
+    this.dataSubscription?.remove();
+    this.dataSubscription = null;
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+    this.device = null;
+    this.setState("disconnected");
+  }
+}
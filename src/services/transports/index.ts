@@ -0,0 +1,47 @@
+import { Platform } from "react-native";
+import type { Transport, TransportKind } from "../../types";
+import { BleTransport } from "./bleTransport";
+import { ClassicTransport } from "./classicTransport";
+import { SimulatedTransport } from "./simulatedTransport";
+import { WebBluetoothTransport } from "./webBluetoothTransport";
+import { WifiTransport } from "./wifiTransport";
+
+export { BaseTransport } from "./baseTransport";
+export { BleTransport } from "./bleTransport";
+export { ClassicTransport } from "./classicTransport";
+export { SimulatedTransport } from "./simulatedTransport";
+export { WebBluetoothTransport } from "./webBluetoothTransport";
+export {
+  WifiTransport,
+  wifiDeviceForHost,
+  wifiUrlForHost,
+  WIFI_DEFAULT_PORT,
+} from "./wifiTransport";
+
+// Link types offered in the device picker, in display order
+// (the simulator is not listed: its robot shows up in every scan;
+// browsers have no Bluetooth Classic)
+export const TRANSPORT_OPTIONS: { kind: TransportKind; label: string }[] = (
+  [
+    { kind: "ble", label: "BLE" },
+    { kind: "classic", label: "Classic" },
+    { kind: "wifi", label: "Wi-Fi" },
+  ] as const
+).filter(({ kind }) => Platform.OS !== "web" || kind !== "classic");
+
+// Create a transport for the given link type
+export function createTransport(kind: TransportKind): Transport {
+  switch (kind) {
+    case "ble":
+      // The web build talks BLE through the browser instead of the native module
+      return Platform.OS === "web"
+        ? new WebBluetoothTransport()
+        : new BleTransport();
+    case "classic":
+      return new ClassicTransport();
+    case "wifi":
+      return new WifiTransport();
+    case "simulated":
+      return new SimulatedTransport();
+  }
+}
@@ -0,0 +1,416 @@
+import type {
+  AdapterState,
+  BluetoothDevice,
+  GearType,
+  MotorCommand,
+  WriteMode,
+} from "../../types";
+import { parseDriveCommand } from "../protocol/textProtocol";
+import {
+  bytesToBinaryString,
+  encodeFrame,
+  FrameDecoder,
+  FrameType,
+} from "../protocol/binaryProtocol";
+import { decodeCommandFrame } from "../protocol/commandEncoders";
+import { PING_PREFIX } from "../protocol/ping";
+import { ConnectionError } from "../connectionError";
+import { BaseTransport } from "./baseTransport";
+
+// Constants mirrored from BeetleBot_ESP32_wPS4Controller.ino
+const SPEED_STEP = 20;
+const SPEED_DEFAULT = 150;
+const MOTOR_RAMP_UP = 25; // Max PWM increase per firmware loop
+const MOTOR_RAMP_DOWN = 35; // Max PWM decrease per firmware loop
+const CLAW_OPEN_ANGLE = 90;
+const CLAW_CLOSED_ANGLE = 3;
+const SERVO_EASE_FACTOR = 0.3;
+const TIMEOUT_MS = 600; // Stop when no command arrives while driving
+
+// Simulation timing
+const LOOP_INTERVAL_MS = 10; // Matches delay(10) in the firmware loop
+const TELEMETRY_INTERVAL_MS = 500;
+const CONNECT_DELAY_MS = 300;
+
+const VIRTUAL_DEVICE_ID = "virtual-beetlebot";
+
+type Direction = "F" | "B" | "L" | "R" | "S" | "D";
+
+/**
+ * In-process robot used for development without an ESP32
+ * Accepts the character protocol, JSON MotorCommands and binary frames
+ */
+export class SimulatedTransport extends BaseTransport {
+  readonly kind = "simulated" as const;
+  readonly label = "Virtual BeetleBot";
+
+  private frameDecoder = new FrameDecoder();
+  private loopInterval: ReturnType<typeof setInterval> | null = null;
+  private telemetryInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Firmware state
+  private direction: Direction = "S";
+  private currentSpeed = 0;
+  private currentMaxSpeed = SPEED_DEFAULT;
+  private lastCommandTime = 0;
+  private gear: GearType = "1";
+
+  // Physical model (signed PWM, -255..255)
+  private targetLeft = 0;
+  private targetRight = 0;
+  private motorLeft = 0;
+  private motorRight = 0;
+  private clawTarget = CLAW_OPEN_ANGLE;
+  private clawAngle = CLAW_OPEN_ANGLE;
+  private battery = 100;
+  private temperature = 25;
+
+  /**
+   * Report the single virtual robot
+   */
+  async scan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
+    onDeviceFound({
+      id: VIRTUAL_DEVICE_ID,
+      name: this.label,
+      address: "simulated",
+      isConnected: false,
+      lastConnected: null,
+      signalStrength: -40,
+      transport: this.kind,
+    });
+  }
+
+  stopScan(): void {}
+
+  async getAdapterState(): Promise<AdapterState> {
+    return "poweredOn";
+  }
+
+  // The advertised -40 dBm with a little noise
+  async readRssi(): Promise<number | null> {
+    if (this.getState() !== "connected") return null;
+    return -40 - Math.round(Math.random() * 6);
+  }
+
+  async setConnectionPriority(): Promise<void> {}
+
+  async connect(deviceId: string): Promise<boolean> {
+    if (deviceId !== VIRTUAL_DEVICE_ID) {
+      this.fail(
+        new ConnectionError("deviceNotFound", `Unknown device: ${deviceId}`)
+      );
+      return false;
+    }
+
+    this.setState("connecting");
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+
+    // Reconnecting without a disconnect must not leave the old timers running
+    this.stopTimers();
+    this.resetRobot();
+    this.frameDecoder.reset();
+    this.loopInterval = setInterval(() => this.tick(), LOOP_INTERVAL_MS);
+    this.telemetryInterval = setInterval(
+      () => this.emitTelemetry(),
+      TELEMETRY_INTERVAL_MS
+    );
+
+    this.setState("connected");
+    return true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopTimers();
+    // Firmware stops motors when the central disconnects
+    this.stopMotors();
+    this.setState("disconnected");
+  }
+
+  protected async writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null> {
+    if (this.getState() !== "connected") {
+      console.warn("No device connected");
+      return null;
+    }
+
+    if (typeof data !== "string") {
+      this.processFrames(data);
+      return "stream";
+    }
+
+    const cmd = data.trim();
+    if (cmd.length === 0) return "stream";
+
+    this.lastCommandTime = Date.now();
+    if (cmd.startsWith("{")) {
+      this.processJsonCommand(cmd);
+    } else {
+      this.processCommand(cmd);
+    }
+    return "stream";
+  }
+
+  async destroy(): Promise<void> {
+    await this.disconnect();
+    this.clearListeners();
+  }
+
+  // Character protocol, same branches as processCommand() in the firmware
+  private processCommand(cmd: string): void {
+    if (cmd === "F" || cmd === "B" || cmd === "L" || cmd === "R") {
+      this.direction = cmd;
+      this.currentSpeed = SPEED_DEFAULT;
+      this.applyCurrentDirection();
+    } else if (cmd === "S" || cmd === "/") {
+      this.direction = "S";
+      this.currentSpeed = 0;
+      this.stopMotors();
+    } else if (cmd === "O") {
+      this.clawTarget = CLAW_OPEN_ANGLE;
+    } else if (cmd === "C") {
+      this.clawTarget = CLAW_CLOSED_ANGLE;
+    } else if (cmd === "?") {
+      // Handshake: report the firmware capabilities
+      this.emitData(
+        JSON.stringify({
+          type: "info",
+          name: "Virtual BeetleBot",
+          protocol: 1,
+          formats: ["text", "json", "binary"],
+          features: [
+            "cardinal",
+            "proportional",
+            "claw",
+            "heartbeat",
+            "telemetry",
+            "ack",
+            "ping",
+          ],
+        })
+      );
+    } else if (cmd === "H") {
+      // Heartbeat: echo so the app knows the link is alive
+      this.emitData("H");
+    } else if (cmd.startsWith(PING_PREFIX)) {
+      // Ping: echo unchanged for round-trip timing
+      this.emitData(cmd);
+    } else if (cmd === "+") {
+      this.currentSpeed = Math.min(
+        this.currentSpeed + SPEED_STEP,
+        this.currentMaxSpeed
+      );
+      this.applyCurrentDirection();
+    } else if (cmd.startsWith("MAX:")) {
+      const appMax = parseInt(cmd.substring(4), 10) || 0;
+      this.currentMaxSpeed = appMax <= 60 ? 200 : 255;
+      // Firmware has no gear; infer it from the app's MAX: value for telemetry
+      this.gear = appMax <= 60 ? "1" : "2";
+    } else if (cmd.startsWith("D:")) {
+      const drive = parseDriveCommand(cmd);
+      if (!drive) {
+        console.log("[Simulator] Malformed drive command:", cmd);
+        return;
+      }
+      this.driveProportional(drive.left, drive.right);
+    } else {
+      console.log("[Simulator] Unknown command:", cmd);
+    }
+  }
+
+  // JSON protocol used by BeetleBot_ESP32.ino
+  private processJsonCommand(json: string): void {
+    let command: MotorCommand;
+    try {
+      command = JSON.parse(json);
+    } catch (error) {
+      console.log("[Simulator] JSON parse error:", error);
+      return;
+    }
+
+    this.applyMotorCommand(command);
+  }
+
+  // Binary frames, decoded with the shared protocol module
+  private processFrames(bytes: Uint8Array): void {
+    this.frameDecoder.push(bytes).forEach((frame) => {
+      const command = decodeCommandFrame(frame, this.gear);
+      if (!command) {
+        console.log("[Simulator] Unsupported frame type:", frame.type);
+        return;
+      }
+      // Acknowledge everything but the drive stream, like the firmware
+      if (frame.type !== FrameType.DRIVE) {
+        this.emitData(bytesToBinaryString(encodeFrame(FrameType.ACK, frame.seq)));
+      }
+      this.lastCommandTime = Date.now();
+      // Like the frame handler in BeetleBot_ESP32_wPS4Controller.ino: drive
+      // speeds are applied as sent, a gear frame only sets the speed cap
+      if (command.type === "joystick") {
+        this.driveProportional(command.leftSpeed, command.rightSpeed);
+      } else if (command.type === "gear") {
+        this.gear = command.gear;
+        this.currentMaxSpeed = command.gear === "2" ? 255 : 200;
+      } else {
+        this.applyMotorCommand(command);
+      }
+    });
+  }
+
+  // Percent of currentMaxSpeed per wheel, like driveProportional()
+  private driveProportional(left: number, right: number): void {
+    this.direction = left === 0 && right === 0 ? "S" : "D";
+    this.setTargets(
+      Math.trunc((left * this.currentMaxSpeed) / 100),
+      Math.trunc((right * this.currentMaxSpeed) / 100)
+    );
+  }
+
+  // Same branches as processCommand() in BeetleBot_ESP32.ino
+  private applyMotorCommand(command: MotorCommand): void {
+    this.gear = command.gear ?? this.gear;
+
+    switch (command.type) {
+      case "joystick": {
+        // Gear 1 runs at half speed, gear 2 at full speed
+        const scale = this.gear === "1" ? 0.5 : 1;
+        const toPwm = (speed: number) =>
+          Math.round((Math.max(-100, Math.min(100, speed)) * scale * 255) / 100);
+        this.direction = "S";
+        this.targetLeft = toPwm(command.leftSpeed);
+        this.targetRight = toPwm(command.rightSpeed);
+        break;
+      }
+      case "stop":
+        this.stopMotors();
+        break;
+      case "brake":
+        // Active braking stops the wheels without ramping
+        this.stopMotors();
+        this.motorLeft = 0;
+        this.motorRight = 0;
+        break;
+      case "claw":
+        this.clawTarget = command.clawOpen ? CLAW_OPEN_ANGLE : CLAW_CLOSED_ANGLE;
+        break;
+      case "gear":
+        break;
+    }
+  }
+
+  private applyCurrentDirection(): void {
+    const speed = this.currentSpeed;
+    switch (this.direction) {
+      case "F":
+        this.setTargets(speed, speed);
+        break;
+      case "B":
+        this.setTargets(-speed, -speed);
+        break;
+      case "L":
+        this.setTargets(-speed, speed);
+        break;
+      case "R":
+        this.setTargets(speed, -speed);
+        break;
+      case "D":
+        // Speeds come from the D: stream
+        break;
+      default:
+        this.stopMotors();
+    }
+  }
+
+  private setTargets(left: number, right: number): void {
+    this.targetLeft = left;
+    this.targetRight = right;
+  }
+
+  private stopTimers(): void {
+    if (this.loopInterval) {
+      clearInterval(this.loopInterval);
+      this.loopInterval = null;
+    }
+    if (this.telemetryInterval) {
+      clearInterval(this.telemetryInterval);
+      this.telemetryInterval = null;
+    }
+  }
+
+  private stopMotors(): void {
+    this.setTargets(0, 0);
+  }
+
+  // One firmware loop: timeout check, motor ramping, servo easing, battery
+  private tick(): void {
+    if (
+      this.direction !== "S" &&
+      Date.now() - this.lastCommandTime > TIMEOUT_MS
+    ) {
+      console.log("[Simulator] BLE timeout — stopping motors");
+      this.direction = "S";
+      this.currentSpeed = 0;
+      this.stopMotors();
+    }
+
+    this.motorLeft = rampTowards(this.motorLeft, this.targetLeft);
+    this.motorRight = rampTowards(this.motorRight, this.targetRight);
+    this.clawAngle += (this.clawTarget - this.clawAngle) * SERVO_EASE_FACTOR;
+
+    // Rough load model so telemetry moves while driving
+    const load = (Math.abs(this.motorLeft) + Math.abs(this.motorRight)) / 510;
+    this.battery = Math.max(0, this.battery - load * 0.0005);
+    this.temperature += (25 + load * 20 - this.temperature) * 0.001;
+  }
+
+  private emitTelemetry(): void {
+    const speed =
+      ((Math.abs(this.motorLeft) + Math.abs(this.motorRight)) / 2 / 255) * 100;
+
+    this.emitData(
+      JSON.stringify({
+        type: "telemetry",
+        battery: Math.round(this.battery),
+        isMoving: speed > 0,
+        speed: Math.round(speed),
+        gear: this.gear,
+        temperature: Math.round(this.temperature * 10) / 10,
+        clawOpen: this.clawAngle > (CLAW_OPEN_ANGLE + CLAW_CLOSED_ANGLE) / 2,
+        leftMotor: Math.round(this.motorLeft),
+        rightMotor: Math.round(this.motorRight),
+      })
+    );
+  }
+
+  private resetRobot(): void {
+    this.direction = "S";
+    this.currentSpeed = 0;
+    this.currentMaxSpeed = SPEED_DEFAULT;
+    this.lastCommandTime = Date.now();
+    this.gear = "1";
+    this.targetLeft = 0;
+    this.targetRight = 0;
+    this.motorLeft = 0;
+    this.motorRight = 0;
+    this.clawTarget = CLAW_OPEN_ANGLE;
+    this.clawAngle = CLAW_OPEN_ANGLE;
+  }
+}
+
+// Step a signed motor value towards its target using the firmware ramp rates
+function rampTowards(current: number, target: number): number {
+  const magnitude = Math.abs(current);
+  const targetMagnitude = Math.abs(target);
+
+  // Reversing direction must first ramp down through zero
+  if (current !== 0 && Math.sign(current) !== Math.sign(target)) {
+    const next = magnitude - MOTOR_RAMP_DOWN;
+    return next <= 0 ? 0 : Math.sign(current) * next;
+  }
+
+  const sign = Math.sign(target) || Math.sign(current);
+  if (magnitude < targetMagnitude) {
+    return sign * Math.min(magnitude + MOTOR_RAMP_UP, targetMagnitude);
+  }
+  return sign * Math.max(magnitude - MOTOR_RAMP_DOWN, targetMagnitude);
+}
@@ -0,0 +1,305 @@
+import type {
+  AdapterState,
+  BluetoothDevice,
+  DeviceProfile,
+  WriteMode,
+} from "../../types";
+import { ConnectionError, toConnectionError } from "../connectionError";
+import {
+  DEFAULT_PROFILE,
+  DEVICE_PROFILES,
+  matchesName,
+  normalizeUUID,
+} from "../deviceProfiles";
+import { bytesToBinaryString } from "../protocol/binaryProtocol";
+import { ReadinessService } from "../readinessService";
+import { BaseTransport } from "./baseTransport";
+
+// The parts of the Web Bluetooth API used here (not in TypeScript's DOM lib)
+interface WebBluetoothCharacteristic extends EventTarget {
+  readonly uuid: string;
+  readonly value?: DataView;
+  startNotifications(): Promise<WebBluetoothCharacteristic>;
+  writeValueWithResponse(value: Uint8Array): Promise<void>;
+  writeValueWithoutResponse(value: Uint8Array): Promise<void>;
+}
+
+interface WebBluetoothService {
+  readonly uuid: string;
+  getCharacteristic(uuid: string): Promise<WebBluetoothCharacteristic>;
+}
+
+interface WebBluetoothServer {
+  readonly connected: boolean;
+  connect(): Promise<WebBluetoothServer>;
+  disconnect(): void;
+  getPrimaryServices(): Promise<WebBluetoothService[]>;
+}
+
+interface WebBluetoothDevice extends EventTarget {
+  readonly id: string;
+  readonly name?: string;
+  readonly gatt?: WebBluetoothServer;
+}
+
+interface WebBluetooth {
+  getAvailability(): Promise<boolean>;
+  requestDevice(options: {
+    filters: ({ services: string[] } | { namePrefix: string })[];
+    optionalServices: string[];
+  }): Promise<WebBluetoothDevice>;
+}
+
+// Browsers without Web Bluetooth (Firefox, Safari) have no navigator.bluetooth
+function getWebBluetooth(): WebBluetooth | null {
+  const { navigator } = globalThis as {
+    navigator?: { bluetooth?: WebBluetooth };
+  };
+  return navigator?.bluetooth ?? null;
+}
+
+// Devices the user granted this page session, shared by every transport so
+// fleet robots can connect to robots picked through the main link
+const chosenDevices = new Map<string, WebBluetoothDevice>();
+
+function dataViewToString(view: DataView): string {
+  return bytesToBinaryString(
+    new Uint8Array(view.buffer, view.byteOffset, view.byteLength)
+  );
+}
+
+/**
+ * BLE link for the web build, using the browser's Web Bluetooth API
+ * Scanning opens the browser's device chooser (it must follow a tap); the
+ * chosen robot is listed like a scanned one. Talks to the same profiles
+ * and protocol as the native BleTransport.
+ */
+export class WebBluetoothTransport extends BaseTransport {
+  readonly kind = "ble" as const;
+  readonly label = "Web Bluetooth";
+
+  private fixedProfile: DeviceProfile | null = null;
+  private profile: DeviceProfile = DEFAULT_PROFILE;
+  private device: WebBluetoothDevice | null = null;
+  private command: WebBluetoothCharacteristic | null = null;
+  private cleanup: (() => void) | null = null;
+
+  /**
+   * Restrict the chooser to one robot variant (null = any known profile)
+   */
+  setProfile(profile: DeviceProfile | null): void {
+    this.fixedProfile = profile;
+  }
+
+  getProfile(): DeviceProfile {
+    return this.profile;
+  }
+
+  /**
+   * Let the user pick a robot in the browser's chooser
+   */
+  async scan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
+    const bluetooth = getWebBluetooth();
+    await ReadinessService.ensureReady(this);
+    if (!bluetooth) return;
+
+    const profiles = this.fixedProfile ? [this.fixedProfile] : DEVICE_PROFILES;
+    const services = [
+      ...new Set(profiles.map((profile) => normalizeUUID(profile.serviceUUID))),
+    ];
+    try {
+      const device = await bluetooth.requestDevice({
+        filters: [
+          { services },
+          ...profiles
+            .filter((profile) => profile.namePrefix)
+            .map((profile) => ({ namePrefix: profile.namePrefix as string })),
+        ],
+        optionalServices: services,
+      });
+      chosenDevices.set(device.id, device);
+      onDeviceFound({
+        id: device.id,
+        name: device.name ?? "Unknown Device",
+        address: "Web Bluetooth",
+        isConnected: false,
+        lastConnected: null,
+        signalStrength: -100, // Not reported by the chooser
+        transport: this.kind,
+      });
+    } catch (error) {
+      // Closing the chooser is not a failure
+      if (error instanceof Error && error.name === "NotFoundError") return;
+      throw toConnectionError(error);
+    }
+  }
+
+  // The chooser cannot be closed from script
+  stopScan(): void {}
+
+  async getAdapterState(): Promise<AdapterState> {
+    const bluetooth = getWebBluetooth();
+    if (!bluetooth) return "unsupported";
+    try {
+      return (await bluetooth.getAvailability()) ? "poweredOn" : "poweredOff";
+    } catch {
+      return "unknown";
+    }
+  }
+
+  async readRssi(): Promise<number | null> {
+    return null;
+  }
+
+  async setConnectionPriority(): Promise<void> {}
+
+  /**
+   * Connect to a robot picked in the chooser during this page session
+   */
+  async connect(deviceId: string): Promise<boolean> {
+    // GATT connected but not yet adopted; dropped if setup fails
+    let linked: WebBluetoothDevice | null = null;
+    try {
+      const device = chosenDevices.get(deviceId);
+      // Browsers only grant access to devices the user picked
+      if (!device?.gatt) {
+        throw new ConnectionError(
+          "deviceNotFound",
+          "Pick the robot in the browser's device list first"
+        );
+      }
+
+      this.setState("connecting");
+      const server = await device.gatt.connect();
+      linked = device;
+
+      this.setState("discovering");
+      const services = await server.getPrimaryServices();
+      const uuids = services.map((service) => normalizeUUID(service.uuid));
+      const profile = (
+        this.fixedProfile ? [this.fixedProfile] : DEVICE_PROFILES
+      ).find(
+        (candidate) =>
+          uuids.includes(normalizeUUID(candidate.serviceUUID)) &&
+          matchesName(candidate, device.name ?? "")
+      );
+      if (!profile) {
+        throw new ConnectionError(
+          "serviceMissing",
+          `Device has no ${this.fixedProfile?.name ?? "BeetleBot"} service`
+        );
+      }
+      const service = services.find(
+        (candidate) =>
+          normalizeUUID(candidate.uuid) === normalizeUUID(profile.serviceUUID)
+      ) as WebBluetoothService;
+
+      const command = await service
+        .getCharacteristic(normalizeUUID(profile.characteristicUUID))
+        .catch(() => {
+          throw new ConnectionError(
+            "characteristicMissing",
+            "Device has no BeetleBot command characteristic"
+          );
+        });
+      const telemetry = profile.telemetryCharacteristicUUID
+        ? await service
+            .getCharacteristic(
+              normalizeUUID(profile.telemetryCharacteristicUUID)
+            )
+            .catch(() => null)
+        : null;
+
+      this.profile = profile;
+      this.device = device;
+      this.command = command;
+      this.cleanup = this.listen(device, [command, telemetry]);
+      await command.startNotifications().catch(() => undefined);
+      await telemetry?.startNotifications().catch(() => undefined);
+
+      this.setState("connected");
+      return true;
+    } catch (error) {
+      console.error("Connection error:", error);
+      this.handleLinkClosed();
+      // e.g. no matching profile: the device is linked but unusable
+      linked?.gatt?.disconnect();
+      this.fail(toConnectionError(error));
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const current = this.device;
+    this.handleLinkClosed();
+    current?.gatt?.disconnect();
+  }
+
+  /**
+   * Write with response first, falling back to without response
+   */
+  protected async writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null> {
+    const command = this.command;
+    if (!command) {
+      console.warn("No device connected");
+      return null;
+    }
+
+    const bytes =
+      typeof data === "string"
+        ? Uint8Array.from(data, (char) => char.charCodeAt(0) & 0xff)
+        : data;
+    try {
+      await command.writeValueWithResponse(bytes);
+      return "withResponse";
+    } catch {
+      await command.writeValueWithoutResponse(bytes);
+      return "withoutResponse";
+    }
+  }
+
+  async destroy(): Promise<void> {
+    await this.disconnect();
+    this.clearListeners();
+  }
+
+  // Forward notifications and watch for the link dropping
+  private listen(
+    device: WebBluetoothDevice,
+    characteristics: (WebBluetoothCharacteristic | null)[]
+  ): () => void {
+    const onValue = (event: Event) => {
+      const { value } = event.target as WebBluetoothCharacteristic;
+      if (value) this.emitData(dataViewToString(value));
+    };
+    const onDisconnected = () => {
+      console.log("Web Bluetooth device disconnected:", device.id);
+      this.handleLinkClosed();
+    };
+
+    characteristics.forEach((characteristic) =>
+      characteristic?.addEventListener("characteristicvaluechanged", onValue)
+    );
+    device.addEventListener("gattserverdisconnected", onDisconnected);
+    return () => {
+      characteristics.forEach((characteristic) =>
+        characteristic?.removeEventListener(
+          "characteristicvaluechanged",
+          onValue
+        )
+      );
+      device.removeEventListener("gattserverdisconnected", onDisconnected);
+    };
+  }
+
+  // Release per-connection listeners and reset state
+  private handleLinkClosed(): void {
+    this.cleanup?.();
+    this.cleanup = null;
+    this.device = null;
+    this.command = null;
+    this.setState("disconnected");
+  }
+}
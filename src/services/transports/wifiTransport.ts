@@ -0,0 +1,243 @@
+import type {
+  AdapterState,
+  BluetoothDevice,
+  WriteMode,
+} from "../../types";
+import { ConnectionError, toConnectionError } from "../connectionError";
+import { HANDSHAKE_QUERY, parseFirmwareInfo } from "../protocol/handshake";
+import { bytesToBinaryString } from "../protocol/binaryProtocol";
+import { BaseTransport } from "./baseTransport";
+
+// Port the Wi-Fi link expects a robot's WebSocket server on (the bundled
+// sketches have none yet; the stand-in server uses 8081)
+export const WIFI_DEFAULT_PORT = 81;
+
+// Hosts probed on every scan: the mDNS names Wi-Fi firmware should announce
+// and the ESP32's own address when the phone joins its access point
+const DISCOVERY_HOSTS = [
+  "beetlebot.local",
+  "beetlebot-esp32.local",
+  "192.168.4.1",
+];
+
+const PROBE_TIMEOUT_MS = 2000;
+const CONNECT_TIMEOUT_MS = 5000;
+
+// "192.168.1.20", "beetlebot.local:8080" or "ws://..." -> WebSocket URL
+export function wifiUrlForHost(host: string): string {
+  const trimmed = host.trim();
+  if (/^wss?:\/\//.test(trimmed)) return trimmed;
+  return /:\d+$/.test(trimmed)
+    ? `ws://${trimmed}`
+    : `ws://${trimmed}:${WIFI_DEFAULT_PORT}`;
+}
+
+/**
+ * Device entry for a manually entered address (connect without scanning)
+ */
+export function wifiDeviceForHost(
+  host: string,
+  name?: string
+): BluetoothDevice {
+  const url = wifiUrlForHost(host);
+  return {
+    id: url,
+    name: name ?? host.trim(),
+    address: url.replace(/^wss?:\/\//, ""),
+    isConnected: false,
+    lastConnected: null,
+    signalStrength: -100, // Unknown on Wi-Fi
+    transport: "wifi",
+  };
+}
+
+/**
+ * Robot reachable over the local network through a WebSocket
+ * Text messages carry the character/JSON protocol and telemetry, binary
+ * messages carry frames, exactly as on the Bluetooth links.
+ * Discovery probes the expected mDNS names, the access point address and
+ * any host connected to this session, keeping those that accept a socket.
+ * The bundled ESP32 sketches are Bluetooth only; scripts/wifi-robot-server.js
+ * stands in for a Wi-Fi robot.
+ */
+export class WifiTransport extends BaseTransport {
+  readonly kind = "wifi" as const;
+  readonly label = "Wi-Fi";
+
+  private socket: WebSocket | null = null;
+  private probes = new Set<WebSocket>();
+  private manualHosts = new Set<string>(); // Connected to this session
+
+  /**
+   * Probe the well-known and previously used hosts for a robot
+   */
+  async scan(
+    onDeviceFound: (device: BluetoothDevice) => void,
+    durationMs: number = PROBE_TIMEOUT_MS
+  ): Promise<void> {
+    const hosts = [...DISCOVERY_HOSTS, ...this.manualHosts];
+    await Promise.all(
+      hosts.map((host) =>
+        this.probe(host, Math.min(durationMs, PROBE_TIMEOUT_MS)).then(
+          (device) => {
+            if (device) onDeviceFound(device);
+          }
+        )
+      )
+    );
+  }
+
+  stopScan(): void {
+    this.probes.forEach((probe) => probe.close());
+    this.probes.clear();
+  }
+
+  // No radio to power on; reachability shows up when connecting
+  async getAdapterState(): Promise<AdapterState> {
+    return "poweredOn";
+  }
+
+  async readRssi(): Promise<number | null> {
+    return null;
+  }
+
+  async setConnectionPriority(): Promise<void> {}
+
+  /**
+   * Open the WebSocket; the device id is its URL
+   */
+  async connect(deviceId: string): Promise<boolean> {
+    try {
+      this.stopScan();
+      this.closeSocket();
+      this.setState("connecting");
+
+      const socket = await this.open(deviceId, CONNECT_TIMEOUT_MS);
+      this.socket = socket;
+      // Typed-in addresses show up in later scans
+      this.manualHosts.add(deviceId);
+      socket.onmessage = (event) => this.emitData(messageToString(event.data));
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        console.log("WebSocket closed:", deviceId);
+        this.socket = null;
+        this.setState("disconnected");
+      };
+      socket.onerror = (event) => console.warn("WebSocket error:", event);
+
+      this.setState("connected");
+      return true;
+    } catch (error) {
+      console.error("Connection error:", error);
+      this.closeSocket();
+      this.setState("disconnected");
+      this.fail(toConnectionError(error, "deviceNotFound"));
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.closeSocket();
+    this.setState("disconnected");
+  }
+
+  /**
+   * Send text as a text message, binary frames as a binary message
+   */
+  protected async writeData(
+    data: string | Uint8Array
+  ): Promise<WriteMode | null> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      console.warn("No device connected");
+      return null;
+    }
+
+    socket.send(
+      typeof data === "string"
+        ? data
+        : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    );
+    return "stream";
+  }
+
+  async destroy(): Promise<void> {
+    this.stopScan();
+    await this.disconnect();
+    this.clearListeners();
+  }
+
+  // Open a socket, rejecting if it does not come up in time
+  private open(url: string, timeoutMs: number): Promise<WebSocket> {
+    return new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.binaryType = "arraybuffer";
+
+      const timeout = setTimeout(() => {
+        socket.close();
+        reject(new ConnectionError("timeout", `No answer from ${url}`));
+      }, timeoutMs);
+
+      socket.onopen = () => {
+        clearTimeout(timeout);
+        resolve(socket);
+      };
+      socket.onerror = () => {
+        clearTimeout(timeout);
+        reject(new ConnectionError("deviceNotFound", `Cannot reach ${url}`));
+      };
+    });
+  }
+
+  // Connect, ask for the firmware info and close again; a host that accepts
+  // the socket but stays silent is still listed under its address
+  private async probe(
+    host: string,
+    timeoutMs: number
+  ): Promise<BluetoothDevice | null> {
+    const url = wifiUrlForHost(host);
+    let socket: WebSocket;
+    try {
+      socket = await this.open(url, timeoutMs);
+    } catch {
+      return null;
+    }
+    this.probes.add(socket);
+
+    const name = await new Promise<string | null>((resolve) => {
+      const timeout = setTimeout(() => resolve(null), timeoutMs);
+      socket.onmessage = (event) => {
+        const info = parseFirmwareInfo(messageToString(event.data));
+        if (info) {
+          clearTimeout(timeout);
+          resolve(info.name);
+        }
+      };
+      socket.onclose = () => {
+        clearTimeout(timeout);
+        resolve(null);
+      };
+      socket.send(HANDSHAKE_QUERY);
+    });
+
+    // Cancelled by stopScan while waiting
+    const stopped = !this.probes.delete(socket);
+    socket.close();
+    return stopped ? null : wifiDeviceForHost(host, name ?? undefined);
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
+
+// Text frames arrive as strings, binary ones as ArrayBuffers
+function messageToString(data: unknown): string {
+  if (typeof data === "string") return data;
+  if (data instanceof ArrayBuffer) {
+    return bytesToBinaryString(new Uint8Array(data));
+  }
+  return String(data);
+}
@@ -1,3 +1,5 @@
+import type { ConnectionError } from "../services/connectionError";
+
 /**
  * Joystick movement data with normalized values and angle information
  */
@@ -24,11 +26,65 @@ export interface MotorCommand {
   timestamp: number;
 }
 
+/**
+ * Wire format used to send MotorCommands
+ * - text: character protocol (F/B/L/R/S, D:l,r, O/C, MAX:n)
+ * - json: JSON.stringify(MotorCommand), BeetleBot_ESP32.ino
+ * - binary: framed binary protocol with sequence number and CRC
+ */
+export type CommandFormat = "text" | "json" | "binary";
+
+/**
+ * Turns MotorCommands into data for Transport.write
+ */
+export interface CommandEncoder {
+  readonly format: CommandFormat;
+  // Whether the firmware acknowledges commands sent in this format
+  readonly supportsAck: boolean;
+  encode(command: MotorCommand, seq: number): string | Uint8Array;
+}
+
+/**
+ * Optional robot capabilities reported during the handshake
+ * - cardinal: F/B/L/R letter commands
+ * - proportional: per-wheel speed commands
+ * - gear: firmware applies gear scaling itself (otherwise the app scales)
+ * - heartbeat: echoes the app's "H" heartbeat
+ * - ping: echoes "P:<n>" so the app can time round trips
+ */
+export type RobotFeature =
+  | "cardinal"
+  | "proportional"
+  | "claw"
+  | "gear"
+  | "heartbeat"
+  | "telemetry"
+  | "ack"
+  | "ping";
+
+/**
+ * Firmware identity and capabilities from the connect handshake
+ */
+export interface FirmwareInfo {
+  name: string;
+  protocolVersion: number;
+  formats: CommandFormat[]; // Command encodings the firmware accepts
+  features: RobotFeature[];
+  legacy: boolean; // No handshake reply; capabilities are assumed
+}
+
 /**
  * Gear type for the vehicle
  */
 export type GearType = "2" | "1";
 
+/**
+ * How joystick input is turned into commands
+ * - cardinal: 4-way F/B/L/R letters with + speed steps
+ * - proportional: continuous signed left/right wheel speeds
+ */
+export type DriveMode = "cardinal" | "proportional";
+
 /**
  * Bluetooth device information
  */
@@ -39,17 +95,208 @@ export interface BluetoothDevice {
   isConnected: boolean;
   lastConnected: Date | null;
   signalStrength: number; // -100 to 0 dBm
+  transport: TransportKind; // Link type the device was discovered on
+  profileId?: string; // BLE device profile matched during the scan
+}
+
+/**
+ * Robot the app has connected to before, persisted between sessions
+ */
+export interface KnownRobot {
+  id: string; // Device id used to reconnect
+  name: string; // Advertised name
+  alias: string | null; // User-given nickname
+  color: string; // Accent shown next to the robot
+  transport: TransportKind;
+  profileId?: string;
+  lastConnected: number; // Epoch ms
+}
+
+/**
+ * BLE layout and protocol of one robot variant
+ */
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  serviceUUID: string;
+  characteristicUUID: string; // Commands (write) and replies (notify)
+  telemetryCharacteristicUUID?: string; // Optional notify-only telemetry
+  namePrefix?: string; // Advertised name must start with this, if set
+  protocol: CommandFormat; // Assumed when the firmware skips the handshake
+  mtu?: number; // MTU to request on connect
 }
 
 /**
  * Bluetooth connection state
+ * Transports report the link states (disconnected, connecting, discovering,
+ * connected, error); the rest are layered on by the Bluetooth context
  */
 export type BluetoothState =
   | "disconnected"
+  | "poweredOff" // Adapter is switched off
+  | "unauthorized" // Bluetooth or location permission denied
+  | "scanning"
   | "connecting"
+  | "discovering" // Linked; resolving services and firmware handshake
   | "connected"
+  | "linkLost" // Connected, but the robot stopped answering heartbeats
+  | "reconnecting"
   | "error";
 
+/**
+ * Why a scan or connection attempt failed
+ */
+export type ConnectionErrorReason =
+  | "permissionDenied"
+  | "bluetoothOff"
+  | "locationOff"
+  | "serviceMissing" // Not running BeetleBot firmware
+  | "characteristicMissing"
+  | "deviceNotFound"
+  | "timeout"
+  | "unsupported" // No usable Bluetooth adapter for this link
+  | "unknown";
+
+/**
+ * Power state of the phone's Bluetooth adapter
+ */
+export type AdapterState =
+  | "poweredOn"
+  | "poweredOff"
+  | "unauthorized"
+  | "unsupported"
+  | "unknown";
+
+/**
+ * Whether the phone is ready to scan and connect (see ReadinessService)
+ */
+export interface ReadinessResult {
+  ready: boolean;
+  permissionsGranted: boolean;
+  canAskAgain: boolean; // False once the user chose "Don't ask again"
+  locationEnabled: boolean; // Android needs location services for scans
+  adapter: AdapterState;
+  issue: ConnectionErrorReason | null; // First thing to fix, null when ready
+}
+
+/**
+ * Link type used to reach the robot
+ */
+export type TransportKind = "ble" | "classic" | "wifi" | "simulated";
+
+/**
+ * Common contract implemented by every link type (BLE, Classic, Wi-Fi,
+ * simulator)
+ */
+export interface Transport {
+  readonly kind: TransportKind;
+  readonly label: string;
+
+  // Discovery
+  scan(
+    onDeviceFound: (device: BluetoothDevice) => void,
+    durationMs?: number
+  ): Promise<void>;
+  stopScan(): void;
+
+  // Connection lifecycle
+  connect(deviceId: string): Promise<boolean>;
+  disconnect(): Promise<void>;
+  getState(): BluetoothState;
+  onStateChange(listener: (state: BluetoothState) => void): () => void;
+  // Why the last connect failed; cleared by the next successful one
+  getLastError(): ConnectionError | null;
+  getAdapterState(): Promise<AdapterState>;
+  // Signal of the connected device in dBm, null where the link cannot tell
+  readRssi(): Promise<number | null>;
+  // Trade power for latency (BLE on Android; a no-op elsewhere)
+  setConnectionPriority(priority: ConnectionPriority): Promise<void>;
+
+  // Data exchange (text or binary frames, link encoding is handled here)
+  write(data: string | Uint8Array): Promise<void>;
+  // Incoming bytes are delivered as a Latin-1 string so binary frames survive
+  subscribe(listener: (data: string) => void): () => void;
+
+  // Release native resources
+  destroy(): Promise<void>;
+}
+
+/**
+ * Characteristic of the connected BLE device (GATT explorer)
+ */
+export interface GattCharacteristic {
+  uuid: string;
+  serviceUUID: string;
+  isReadable: boolean;
+  isWritableWithResponse: boolean;
+  isWritableWithoutResponse: boolean;
+  isNotifiable: boolean;
+  isIndicatable: boolean;
+}
+
+export interface GattService {
+  uuid: string;
+  characteristics: GattCharacteristic[];
+}
+
+/**
+ * One check of the connection diagnostics (see ConnectionDiagnostics)
+ */
+export type DiagnosticStepId =
+  | "permissions"
+  | "adapter"
+  | "scan"
+  | "connect"
+  | "services"
+  | "characteristic"
+  | "write"
+  | "echo";
+
+export type DiagnosticStatus =
+  | "pending"
+  | "running"
+  | "passed"
+  | "failed"
+  | "skipped";
+
+export interface DiagnosticStep {
+  id: DiagnosticStepId;
+  label: string;
+  status: DiagnosticStatus;
+  detail: string | null; // What was found, or why it failed
+  durationMs: number | null;
+}
+
+/**
+ * How a write went out: GATT write with or without response, or a stream
+ * (Classic, Wi-Fi, simulator) that has no such distinction
+ */
+export type WriteMode = "withResponse" | "withoutResponse" | "stream";
+
+/**
+ * One frame in the traffic log (see TrafficLog)
+ */
+export interface TrafficEntry {
+  id: number;
+  timestamp: number; // When the write started or the data arrived
+  direction: "out" | "in";
+  transport: TransportKind;
+  data: string; // Latin-1 bytes
+  writeMode: WriteMode | null; // Outbound only
+  durationMs: number | null; // Until the write resolved (outbound only)
+  error: string | null;
+}
+
+/**
+ * Command scheduler counters (see CommandScheduler)
+ */
+export interface SchedulerStats {
+  queueDepth: number; // Commands waiting to be sent
+  droppedUpdates: number; // Superseded joystick updates, text cut by a stop
+  sentCount: number;
+  rateHz: number;
+}
+
 /**
  * Vehicle telemetry data received from ESP32
  */
@@ -62,6 +309,80 @@ export interface VehicleTelemetry {
   timestamp: number;
 }
 
+/**
+ * Overall link health, worst of latency, loss and signal
+ */
+export type LinkQualityLevel = "good" | "fair" | "poor" | "unknown";
+
+/**
+ * Rolling link measurements while connected (see LinkQualityMonitor)
+ */
+export interface LinkQuality {
+  rttMs: number | null; // Latest ping round trip, null without the ping feature
+  averageRttMs: number | null; // Over the recent window
+  packetLoss: number | null; // 0-1, share of recent pings with no echo
+  rssi: number | null; // dBm, null where the link cannot report it
+  level: LinkQualityLevel;
+  warnings: string[]; // What degraded the level, for the HUD
+}
+
+/**
+ * What the driver is doing, used to pick a power/latency trade-off
+ * - driving: joystick held
+ * - idle: released recently
+ * - parked: no input for a while
+ */
+export type DriveActivity = "driving" | "idle" | "parked";
+
+/**
+ * Radio connection interval request, fastest first
+ */
+export type ConnectionPriority = "high" | "balanced" | "lowPower";
+
+/**
+ * Link settings for the current activity and link quality
+ */
+export interface LinkTuning {
+  activity: DriveActivity;
+  sendIntervalMs: number; // Proportional drive stream
+  heartbeatIntervalMs: number;
+  priority: ConnectionPriority;
+}
+
+/**
+ * Robot connected alongside the main link (see FleetProvider)
+ */
+export interface FleetRobot {
+  device: BluetoothDevice;
+  state: BluetoothState;
+  firmware: FirmwareInfo | null; // Set once the connect handshake finishes
+  telemetry: VehicleTelemetry | null;
+  telemetryStale: boolean;
+  linkLost: boolean; // Stopped answering heartbeats
+  error: ConnectionError | null; // Why the last connect failed
+}
+
+/**
+ * Who is driving through the remote relay
+ * - off: relay not running
+ * - waiting: listening, no browser in control
+ * - remote: an authenticated browser is driving
+ * - overridden: the phone took over; the browser is connected but ignored
+ */
+export type RelayState = "off" | "waiting" | "remote" | "overridden";
+
+/**
+ * Remote relay status for the UI (see RemoteRelay)
+ */
+export interface RelayStatus {
+  state: RelayState;
+  port: number;
+  pin: string | null; // Shown on the phone, typed into the browser
+  clientAddress: string | null; // Browser in control
+  lockedUntil: number | null; // Refusing PINs after repeated wrong ones
+  error: string | null; // Why the relay could not start
+}
+
 /**
  * Control configuration
  */
@@ -0,0 +1,44 @@
+import base64 from "base-64";
+import { binaryStringToBytes } from "@services/protocol/binaryProtocol";
+
+export type PayloadFormat = "text" | "hex" | "base64";
+
+// Converts raw characteristic values to and from user-editable text
+export class PayloadCodec {
+  // Parse user input into bytes; throws on malformed hex or base64
+  static encode(input: string, format: PayloadFormat): Uint8Array {
+    switch (format) {
+      case "text":
+        // UTF-8, so non-ASCII text arrives the way the firmware prints it
+        return new TextEncoder().encode(input);
+      case "hex": {
+        const digits = input.replace(/0x|[\s,:]/gi, "");
+        if (digits.length % 2 !== 0 || /[^0-9a-f]/i.test(digits)) {
+          throw new Error("Hex needs pairs of digits, e.g. BB 01 02");
+        }
+        return Uint8Array.from(digits.match(/../g) ?? [], (byte) =>
+          parseInt(byte, 16)
+        );
+      }
+      case "base64":
+        return binaryStringToBytes(base64.decode(input.trim()));
+    }
+  }
+
+  // Render a Latin-1 byte string (as delivered by transports)
+  static format(data: string, format: PayloadFormat): string {
+    switch (format) {
+      case "text":
+        // Show control bytes instead of letting them garble the output
+        return data.replace(/[\x00-\x08\x0b-\x1f\x7f-\x9f]/g, (char) =>
+          `\\x${char.charCodeAt(0).toString(16).padStart(2, "0")}`
+        );
+      case "hex":
+        return Array.from(binaryStringToBytes(data), (byte) =>
+          byte.toString(16).padStart(2, "0").toUpperCase()
+        ).join(" ");
+      case "base64":
+        return base64.encode(data);
+    }
+  }
+}